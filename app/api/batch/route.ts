@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BatchInputError, formatBatchReport, parseBatchInput, type BatchRowResult } from '@/lib/batch'
+import { DEFAULT_IMAGE_HEIGHT, DEFAULT_IMAGE_WIDTH, renderChartImageWithData } from '@/lib/chart-image'
+import { NoChartDataError } from '@/lib/chart-providers'
+import { parseQuoteDenomination } from '@/lib/quote-currency'
+import { AXIS_MODES } from '@/lib/token-config'
+import { createZip, type ZipEntry } from '@/lib/zip'
+
+// Batch rendering: a CSV/JSON of rows in, a ZIP of chart PNGs plus report.csv out (lib/batch.ts)
+
+// A row takes a tweet fetch, the provider chain and a PNG render: allow a full batch to finish
+export const maxDuration = 300
+
+export async function POST(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  let rows
+  try {
+    rows = parseBatchInput(await request.text(), request.headers.get('content-type') || '')
+  } catch (error) {
+    if (error instanceof BatchInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+
+  const axisParam = searchParams.get('axis')
+  const axisMode = AXIS_MODES.find(mode => mode.value === axisParam)?.value
+  const quote = parseQuoteDenomination(searchParams.get('quote'))
+  const allowIllustrative = searchParams.get('illustrative') === '1'
+  console.log(`📦 Batch rendering ${rows.length} row(s)${allowIllustrative ? ' (illustrative allowed)' : ''}`)
+
+  const files: ZipEntry[] = []
+  const results: BatchRowResult[] = []
+
+  // One row at a time: every row fans out to the tweet and bar routes, which share rate limits
+  for (const row of rows) {
+    try {
+      const { image, chartData, tweets } = await renderChartImageWithData(
+        {
+          tweetUrls: [row.tweetUrl],
+          token: row.token,
+          timeframe: row.timeframe,
+          axisMode,
+          quote,
+          positions: row.position ? [row.position] : [],
+          width: DEFAULT_IMAGE_WIDTH,
+          height: DEFAULT_IMAGE_HEIGHT,
+          allowIllustrative,
+        }
+      )
+
+      const file = `${String(row.row).padStart(2, '0')}-${toFileSlug(chartData.symbol.split('/')[0])}-${toFileSlug(tweets[0].handle)}.png`
+      files.push({ name: file, data: new Uint8Array(await image.arrayBuffer()) })
+      results.push({
+        row,
+        status: chartData.isSynthetic ? 'illustrative' : 'real',
+        file,
+        provider: chartData.provider,
+        message: chartData.isSynthetic
+          ? 'Generated bars, not real price history'
+          : chartData.historicalDataUnavailable ? 'Tweet predates the price history; recent bars shown' : undefined,
+      })
+      console.log(`✅ Row ${row.row}: ${file}`)
+    } catch (error) {
+      console.warn(`⚠️ Row ${row.row} failed:`, error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      results.push({
+        row,
+        status: 'failed',
+        // Say why each provider passed, as the editor's provenance footer does
+        message: error instanceof NoChartDataError
+          ? `${message} (${error.attempts.map(attempt => `${attempt.provider}: ${attempt.reason}`).join('; ')})`
+          : message,
+      })
+    }
+  }
+
+  files.push({ name: 'report.csv', data: new TextEncoder().encode(formatBatchReport(results)) })
+  const count = (status: BatchRowResult['status']) => String(results.filter(result => result.status === status).length)
+
+  return new NextResponse(createZip(files), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="recharted-batch.zip"',
+      'X-Batch-Real': count('real'),
+      'X-Batch-Illustrative': count('illustrative'),
+      'X-Batch-Failed': count('failed'),
+    },
+  })
+}
+
+// "@some_user" → "some_user", "$WIF" → "WIF": safe in file names on every OS
+function toFileSlug(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '').slice(0, 40) || 'chart'
+}
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { BirdeyeOHLCVResponse, BirdeyeTokenInfo } from '@/lib/api'
+import { buildBarCacheKey, getBarCacheTtl, readBarCache, writeBarCache } from '@/lib/bar-cache'
+import { calculateTimeRange } from '@/lib/time-range'
+import { parseChartWindowParams } from '@/lib/timeframes'
+
+const BIRDEYE_API_URL = 'https://public-api.birdeye.so'
+
+// Codex resolutions (from calculateTimeRange) mapped to Birdeye OHLCV types
+const birdeyeTypeMap: Record<string, string> = {
+  '1': '1m',
+  '5': '5m',
+  '15': '15m',
+  '30': '30m',
+  '60': '1H',
+  '240': '4H',
+  '720': '12H',
+  '1D': '1D',
+  '7D': '1W',
+}
+
+// Token overview fields we use (market cap and supply for the y-axis)
+interface BirdeyeTokenOverview extends BirdeyeTokenInfo {
+  price?: number
+  mc?: number
+  supply?: number
+  circulatingSupply?: number
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  // Get parameters from query string
+  const address = searchParams.get('address')
+  const kind = searchParams.get('kind') === 'pair' ? 'pair' : 'token'
+  const timeframe = searchParams.get('timeframe') || '1h'
+  const tweetTimestamp = searchParams.get('tweetTimestamp')
+  const chartWindow = parseChartWindowParams(searchParams) // Before/after the tweet, interval default when absent
+
+  if (!address) {
+    return NextResponse.json(
+      { error: 'Address parameter is required' },
+      { status: 400 }
+    )
+  }
+
+  const apiKey = process.env.BIRDEYE_API_KEY
+  if (!apiKey || apiKey === 'your-birdeye-api-key-here') {
+    return NextResponse.json(
+      { error: 'Birdeye API key not configured. Please add BIRDEYE_API_KEY to your .env file.' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    console.log(`🔄 Fetching Birdeye OHLCV for ${kind}: ${address}, timeframe: ${timeframe}`)
+
+    const { from, to, resolution } = calculateTimeRange(timeframe, tweetTimestamp, chartWindow)
+    const type = birdeyeTypeMap[resolution] || '15m'
+
+    const cacheKey = buildBarCacheKey({ symbol: `birdeye:${address}`, timeframe, resolution, from, to, extra: kind })
+    const cached = await readBarCache<BirdeyeFormattedResponse>(cacheKey)
+    if (cached) {
+      console.log(`⚡ Bar cache hit (${cached.metadata.store}): ${cacheKey}`)
+      return NextResponse.json({ ...cached.value, cache: cached.metadata })
+    }
+
+    const ohlcvPath = kind === 'pair' ? '/defi/ohlcv/pair' : '/defi/ohlcv'
+    const params = new URLSearchParams({
+      address,
+      type,
+      time_from: String(from),
+      time_to: String(to),
+    })
+
+    const ohlcv = await executeBirdeyeRequest<BirdeyeOHLCVResponse>(`${ohlcvPath}?${params.toString()}`, apiKey)
+    const items = ohlcv?.data?.items || []
+    console.log(`✅ Birdeye returned ${items.length} bars (type: ${type})`)
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No OHLCV data available for this token/pair on Birdeye.',
+          addressTried: address,
+          kind,
+          fallbackAvailable: true
+        },
+        { status: 404 }
+      )
+    }
+
+    // Check if tweet timestamp is before available data
+    if (tweetTimestamp) {
+      const tweetTime = new Date(tweetTimestamp).getTime() / 1000
+      const earliestDataTime = items[0].unixTime
+
+      if (tweetTime < earliestDataTime) {
+        console.log(`⚠️ Tweet posted before Birdeye data exists. Tweet: ${new Date(tweetTime * 1000).toISOString()}, Earliest data: ${new Date(earliestDataTime * 1000).toISOString()}`)
+        return NextResponse.json(
+          {
+            error: 'Tweet was posted before chart data exists on Birdeye',
+            tweetTime: new Date(tweetTime * 1000).toISOString(),
+            earliestDataTime: new Date(earliestDataTime * 1000).toISOString(),
+            warning: 'The tweet timestamp is before any available price data for this token'
+          },
+          { status: 422 }
+        )
+      }
+    }
+
+    // Token overview is optional - pairs and unlisted tokens still chart without it
+    let overview: BirdeyeTokenOverview | null = null
+    if (kind === 'token') {
+      try {
+        const overviewResponse = await executeBirdeyeRequest<{ data?: BirdeyeTokenOverview }>(`/defi/token_overview?address=${address}`, apiKey)
+        overview = overviewResponse?.data || null
+      } catch (error) {
+        console.log(`⚠️ Birdeye token overview failed (non-blocking): ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    const formattedData = formatBirdeyeResponse(items, overview, resolution)
+    const cache = await writeBarCache(cacheKey, formattedData, getBarCacheTtl(to, resolution))
+    return NextResponse.json({ ...formattedData, cache })
+
+  } catch (error) {
+    console.error('❌ Birdeye API error:', error)
+
+    if (error instanceof Error && (error.message.includes('401') || error.message.includes('403'))) {
+      return NextResponse.json(
+        { error: 'Invalid Birdeye API key. Please check your BIRDEYE_API_KEY in .env file.' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch data from Birdeye API', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+type BirdeyeFormattedResponse = ReturnType<typeof formatBirdeyeResponse>
+
+// Format Birdeye OHLCV items into the same shape as the Codex route
+function formatBirdeyeResponse(items: BirdeyeOHLCVResponse['data']['items'], overview: BirdeyeTokenOverview | null, resolution: string) {
+  const displaySymbol = overview?.symbol || 'TOKEN'
+
+  // Same convention as Codex: plot highs to capture spikes, keep the full OHLC bars
+  const prices = items.map(item => item.h || item.c || item.o || 0)
+  const opens = items.map(item => item.o)
+  const highs = items.map(item => item.h)
+  const lows = items.map(item => item.l)
+  const closes = items.map(item => item.c)
+  const volumes = items.map(item => item.v || 0)
+  const timestamps = items.map(item => new Date(item.unixTime * 1000).toISOString())
+
+  const currentPrice = overview?.price || closes[closes.length - 1] || 0
+  const price24hAgo = prices.length > 24 ? prices[prices.length - 24] : prices[0]
+  const priceChange24h = price24hAgo ? ((currentPrice - price24hAgo) / price24hAgo) * 100 : 0
+  const tokenSupply = overview?.circulatingSupply || overview?.supply
+  const marketCap = overview?.mc || (tokenSupply ? currentPrice * tokenSupply : undefined)
+
+  return {
+    symbol: `${displaySymbol}/USD`,
+    prices,
+    volumes,
+    timestamps,
+    opens,
+    highs,
+    lows,
+    closes,
+    currentPrice,
+    priceChange24h,
+    marketCap,
+    tokenSupply,
+    totalSupply: overview?.supply,
+    source: 'birdeye',
+    dataPoints: items.length,
+    resolution
+  }
+}
+
+// Helper function to call the Birdeye public API (Solana only)
+async function executeBirdeyeRequest<T>(pathWithQuery: string, apiKey: string): Promise<T> {
+  const response = await fetch(`${BIRDEYE_API_URL}${pathWithQuery}`, {
+    headers: {
+      'X-API-KEY': apiKey,
+      'x-chain': 'solana',
+      'accept': 'application/json',
+    }
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return await response.json()
+}
+
+export async function POST(request: NextRequest) {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use GET instead.' },
+    { status: 405 }
+  )
+}
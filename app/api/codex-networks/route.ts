@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { CodexNetwork } from '@/lib/codex-networks'
 
 // Simple query to get available networks from Codex
 const GET_NETWORKS_QUERY = `
@@ -11,7 +12,26 @@ const GET_NETWORKS_QUERY = `
   }
 `
 
+// The network list rarely changes - keep it in memory instead of querying Codex on every chart
+const NETWORKS_TTL_MS = 6 * 60 * 60 * 1000
+let cachedNetworks: { networks: CodexNetwork[]; cachedAt: number } | null = null
+
+function networksResponse(networks: CodexNetwork[], cachedAt: number) {
+  return NextResponse.json({
+    networks,
+    solanaNetwork: networks.find((n) => 
+      n.name.toLowerCase().includes('solana') || 
+      n.networkShortName?.toLowerCase().includes('solana')
+    ),
+    cachedAt: new Date(cachedAt).toISOString()
+  })
+}
+
 export async function GET(request: NextRequest) {
+  if (cachedNetworks && Date.now() - cachedNetworks.cachedAt < NETWORKS_TTL_MS) {
+    return networksResponse(cachedNetworks.networks, cachedNetworks.cachedAt)
+  }
+
   const apiKey = process.env.CODEX_API_KEY
   
   if (!apiKey || apiKey === 'your-codex-api-key-here') {
@@ -49,15 +69,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    console.log('✅ Available networks:', data.data.getNetworks)
+    const networks: CodexNetwork[] = data.data.getNetworks
+    console.log(`✅ Available networks: ${networks.length}`)
     
-    return NextResponse.json({
-      networks: data.data.getNetworks,
-      solanaNetwork: data.data.getNetworks.find((n: any) => 
-        n.name.toLowerCase().includes('solana') || 
-        n.networkShortName?.toLowerCase().includes('solana')
-      )
-    })
+    cachedNetworks = { networks, cachedAt: Date.now() }
+    return networksResponse(networks, cachedNetworks.cachedAt)
 
   } catch (error) {
     console.error('❌ Networks API error:', error)
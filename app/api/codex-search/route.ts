@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { CodexTokenSearchResult } from '@/lib/api'
+
+// Token search ranked by liquidity, so the real token sits above its low-liquidity ticker clones
+const SEARCH_TOKENS_QUERY = `
+  query searchTokens($phrase: String, $filters: TokenFilters, $limit: Int) {
+    filterTokens(
+      phrase: $phrase
+      filters: $filters
+      rankings: [{ attribute: liquidity, direction: DESC }]
+      limit: $limit
+    ) {
+      results {
+        liquidity
+        volume24
+        marketCap
+        token {
+          address
+          name
+          symbol
+          networkId
+          info {
+            imageThumbUrl
+            imageSmallUrl
+          }
+        }
+      }
+    }
+  }
+`
+
+interface CodexFilterTokensResult {
+  liquidity?: string | null
+  volume24?: string | null
+  marketCap?: string | null
+  token: {
+    address: string
+    name?: string | null
+    symbol?: string | null
+    networkId: number
+    info?: { imageThumbUrl?: string | null; imageSmallUrl?: string | null } | null
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  // Get parameters from query string
+  const phrase = searchParams.get('q')?.trim()
+  const networkId = searchParams.get('networkId')
+  const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, 25)
+
+  if (!phrase || phrase.length < 2) {
+    return NextResponse.json(
+      { error: 'Search phrase (q) must be at least 2 characters' },
+      { status: 400 }
+    )
+  }
+
+  const apiKey = process.env.CODEX_API_KEY
+  if (!apiKey || apiKey === 'your-codex-api-key-here') {
+    return NextResponse.json(
+      { error: 'Codex API key not configured' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    console.log(`🔍 Searching Codex tokens for "${phrase}"${networkId ? ` on network ${networkId}` : ''}`)
+
+    const response = await fetch('https://graph.codex.io/graphql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': apiKey,
+      },
+      body: JSON.stringify({
+        query: SEARCH_TOKENS_QUERY,
+        variables: {
+          phrase,
+          filters: networkId ? { network: [parseInt(networkId)] } : undefined,
+          limit
+        }
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+
+    if (data.errors) {
+      console.error('GraphQL errors:', data.errors)
+      return NextResponse.json(
+        { error: 'GraphQL errors', details: data.errors },
+        { status: 500 }
+      )
+    }
+
+    const results: CodexFilterTokensResult[] = data.data?.filterTokens?.results || []
+    console.log(`✅ Found ${results.length} tokens for "${phrase}"`)
+
+    const tokens: CodexTokenSearchResult[] = results.map(result => ({
+      address: result.token.address,
+      symbol: result.token.symbol || '???',
+      name: result.token.name || 'Unknown Token',
+      networkId: result.token.networkId,
+      liquidity: parseFloat(result.liquidity || '0') || 0,
+      volume24: parseFloat(result.volume24 || '0') || 0,
+      marketCap: result.marketCap ? parseFloat(result.marketCap) || undefined : undefined,
+      logo: result.token.info?.imageThumbUrl || result.token.info?.imageSmallUrl || undefined,
+    }))
+
+    return NextResponse.json({ tokens })
+
+  } catch (error) {
+    console.error('❌ Token search API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search tokens', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
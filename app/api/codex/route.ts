@@ -1,4 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { buildBarCacheKey, getBarCacheTtl, getResolutionSeconds, readBarCache, writeBarCache } from '@/lib/bar-cache'
+import { calculateTimeRange } from '@/lib/time-range'
+import { MAX_BAR_PAGES, MAX_BARS_PER_PAGE, parseChartWindowParams } from '@/lib/timeframes'
+import { selectDexScreenerPair, toPairSummary, type PairSummary } from '@/lib/pair-selection'
+import { alignToTimestamps } from '@/lib/comparison'
+import { getNativeQuote, parseQuoteDenomination, type QuoteCurrency } from '@/lib/quote-currency'
+import { buildMarketCapHistory, buildSupplyTimeline, type SupplyChangeEvent } from '@/lib/supply-timeline'
 
 // Codex API interfaces based on their documentation
 interface CodexBarsInput {
@@ -77,6 +84,7 @@ const GET_TOKEN_INFO_QUERY = `
       name
       address
       networkId
+      decimals
       info {
         symbol
         name
@@ -89,6 +97,33 @@ const GET_TOKEN_INFO_QUERY = `
   }
 `
 
+// Mint and burn events, used to rebuild the supply at each bar for historical market cap
+const TOKEN_LIFECYCLE_EVENTS_QUERY = `
+  query getTokenLifecycleEvents($query: TokenLifecycleEventsQueryInput!, $cursor: String, $limit: Int) {
+    tokenLifecycleEvents(query: $query, cursor: $cursor, limit: $limit) {
+      cursor
+      items {
+        eventType
+        timestamp
+        data {
+          ... on MintEventData {
+            amount
+          }
+          ... on BurnEventData {
+            amount
+          }
+        }
+      }
+    }
+  }
+`
+
+interface CodexTokenLifecycleEvent {
+  eventType: 'MINT' | 'BURN'
+  timestamp: number
+  data?: { amount?: string } | null
+}
+
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   
@@ -96,6 +131,9 @@ export async function GET(request: NextRequest) {
   const symbol = searchParams.get('symbol')
   const timeframe = searchParams.get('timeframe') || '1h'
   const tweetTimestamp = searchParams.get('tweetTimestamp')
+  const pairAddress = searchParams.get('pairAddress') // Pool chosen in the pair picker
+  const chartWindow = parseChartWindowParams(searchParams) // Before/after the tweet, interval default when absent
+  const quote = parseQuoteDenomination(searchParams.get('quote')) // USD, the chain's native coin or the pair's quote token
   
   if (!symbol) {
     return NextResponse.json(
@@ -115,6 +153,90 @@ export async function GET(request: NextRequest) {
   try {
     console.log(`🔄 Fetching Codex data for symbol: ${symbol}, timeframe: ${timeframe}`)
     
+    // Calculate time range based on timeframe and tweet timestamp
+    const { from, to, resolution, resolutionConfig } = calculateTimeRange(timeframe, tweetTimestamp, chartWindow)
+    
+    // Serve repeated requests for the same window from the bar cache
+    const cacheKey = buildBarCacheKey({ symbol, timeframe, resolution, from, to, extra: [pairAddress, quote === 'USD' ? undefined : quote].filter(Boolean).join(':') || undefined })
+    const cached = await readBarCache<CodexBarsPayload>(cacheKey)
+    if (cached) {
+      console.log(`⚡ Bar cache hit (${cached.metadata.store}): ${cacheKey}`)
+      return NextResponse.json({ ...cached.value, cache: cached.metadata })
+    }
+    console.log(`🐢 Bar cache miss: ${cacheKey}`)
+    
+    // DexScreener pair used for market cap, supply and the PAIR quote; reported with the bars only
+    // when they were queried for that pool (otherwise they are the token's aggregate bars)
+    let selectedPair: PairSummary | undefined = undefined
+    
+    // Mint/burn events for the per-bar supply (null when Codex has no token info or the lookup failed)
+    let supplyEventsPromise: Promise<SupplyChangeEvent[] | null> = Promise.resolve(null)
+    
+    // Cache successful responses - windowEnd decides between the long (historical) and short (live) TTL,
+    // barResolution records the resolution that actually served the bars (it differs on the fallback path)
+    const respondWithBars = async (usdData: CodexFormattedResponse, windowEnd: number = to, barResolution: string = resolution) => {
+      // Re-denominate in the requested quote; the USD bars are served when the quote can't be priced
+      const quoteCurrency = resolveQuoteCurrency()
+      const denominated = quoteCurrency ? await denominateBars(usdData, quoteCurrency, barResolution) : null
+      const data = denominated || usdData
+      const chartedPair = pairAddress && selectedPair?.pairAddress.toLowerCase() === pairAddress.toLowerCase() ? selectedPair : undefined
+      const payload: CodexBarsPayload = { ...data, resolution: barResolution, pair: chartedPair }
+      if (denominated) payload.quoteCurrency = quoteCurrency
+      if (totalSupply) payload.totalSupply = totalSupply
+      
+      // True historical market cap: undo the mints/burns since each bar to get the supply it traded at
+      const supplyEvents = await supplyEventsPromise
+      if (supplyEvents && tokenSupply && data.timestamps.length > 0) {
+        payload.supplies = buildSupplyTimeline(tokenSupply, supplyEvents, data.timestamps, getResolutionSeconds(barResolution))
+        payload.marketCaps = buildMarketCapHistory(data.prices, payload.supplies)
+        console.log(`🪙 Supply timeline from ${supplyEvents.length} mint/burn events: ${payload.supplies[0].toLocaleString()} → ${payload.supplies[payload.supplies.length - 1].toLocaleString()}`)
+      }
+      
+      const cache = await writeBarCache(cacheKey, payload, getBarCacheTtl(windowEnd, resolution))
+      return NextResponse.json({ ...payload, cache })
+    }
+    
+    // Quote asset for non-USD charts: the wrapped native coin, or the selected pair's quote token
+    const resolveQuoteCurrency = (): QuoteCurrency | undefined => {
+      const quoteCurrency = quote === 'NATIVE'
+        ? getNativeQuote(Number(networkId))
+        : quote === 'PAIR' && selectedPair?.quoteAddress
+          ? { symbol: selectedPair.quoteSymbol, address: selectedPair.quoteAddress }
+          : undefined
+      if (quote !== 'USD' && !quoteCurrency) console.log(`⚠️ No ${quote} quote asset for ${symbol}, serving USD bars`)
+      // A token quoted in itself would be a flat line at 1
+      if (quoteCurrency?.address.toLowerCase() === address.toLowerCase()) return undefined
+      return quoteCurrency
+    }
+    
+    // The quote asset's USD bars over the same window and resolution divide the token's USD bars
+    const denominateBars = async (data: CodexFormattedResponse, quoteCurrency: QuoteCurrency, barResolution: string) => {
+      if (data.timestamps.length === 0) return null
+      try {
+        const barSeconds = getResolutionSeconds(barResolution)
+        const quoteResponse = await executeBarsQuery({
+          symbol: `${quoteCurrency.address}:${networkId}`,
+          from: Math.floor(new Date(data.timestamps[0]).getTime() / 1000) - barSeconds,
+          to: Math.floor(new Date(data.timestamps[data.timestamps.length - 1]).getTime() / 1000) + barSeconds,
+          resolution: barResolution,
+          currencyCode: 'USD',
+          removeLeadingNullValues: true,
+          statsType: 'FILTERED', // Outlier trades in the divisor would show up as fake spikes
+          symbolType: 'TOKEN'
+        }, apiKey)
+        const quoteBars = quoteResponse?.data?.getBars
+        if (!quoteBars || quoteBars.s !== 'ok' || !quoteBars.o || quoteBars.o.length === 0) {
+          console.log(`⚠️ No ${quoteCurrency.symbol} bars to denominate in, serving USD bars`)
+          return null
+        }
+        console.log(`💱 Denominating ${data.dataPoints} bars in ${quoteCurrency.symbol}`)
+        return divideByQuote(data, formatCodexResponse(quoteBars, quoteCurrency.symbol), quoteCurrency)
+      } catch (error) {
+        console.log(`⚠️ ${quoteCurrency.symbol} bars fetch failed, serving USD bars: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        return null
+      }
+    }
+    
     // Parse address and networkId from symbol
     const [address, networkId] = symbol.split(':')
     
@@ -130,6 +252,11 @@ export async function GET(request: NextRequest) {
       console.log(`⚠️ Codex token info fetch failed (non-blocking): ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
     
+    // Supply events are only meaningful against Codex's own supply figure (raw amounts need the token decimals)
+    if (tokenInfo?.decimals !== undefined && (tokenInfo.circulatingSupply || tokenInfo.totalSupply)) {
+      supplyEventsPromise = getSupplyChangeEvents(address, networkId, tokenInfo.decimals, apiKey)
+    }
+    
     // Always try DexScreener for marketcap data (even if Codex provides symbol)
     let fallbackSymbol: string | undefined = undefined
     let fallbackMarketCap: number | undefined = undefined
@@ -143,7 +270,9 @@ export async function GET(request: NextRequest) {
       if (dexResponse.ok) {
         const dexData = await dexResponse.json()
         if (dexData.pairs && dexData.pairs.length > 0) {
-          const pair = dexData.pairs[0]
+          // Best pair by liquidity/volume/quote token, or the pool chosen in the pair picker
+          const pair = selectDexScreenerPair(dexData.pairs, { tokenAddress: address, pairAddress: pairAddress || undefined })!
+          selectedPair = toPairSummary(pair)
           fallbackSymbol = pair.baseToken?.symbol
           fallbackMarketCap = pair.fdv || undefined // Fully diluted valuation from DexScreener
           fallbackTokenSupply = pair.fdv && pair.priceUsd ? pair.fdv / parseFloat(pair.priceUsd) : undefined
@@ -158,25 +287,26 @@ export async function GET(request: NextRequest) {
     const tokenName = tokenInfo?.name || 'Unknown Token'
     const marketCap = tokenInfo?.marketCap || fallbackMarketCap
     const tokenSupply = tokenInfo?.circulatingSupply || tokenInfo?.totalSupply || fallbackTokenSupply
+    const totalSupply = tokenInfo?.totalSupply || fallbackTokenSupply // DexScreener's supply is derived from FDV
     
     console.log(`🏷️ Using symbol: ${displaySymbol} (${tokenName})`)
     console.log(`💰 MarketCap sources: Codex=${tokenInfo?.marketCap ? (tokenInfo.marketCap / 1000000).toFixed(2) + 'M' : 'null'}, DexScreener=${fallbackMarketCap ? (fallbackMarketCap / 1000000).toFixed(2) + 'M' : 'null'}`)
     console.log(`🪙 TokenSupply sources: Codex=${tokenInfo?.circulatingSupply || tokenInfo?.totalSupply || 'null'}, DexScreener=${fallbackTokenSupply ? fallbackTokenSupply.toLocaleString() : 'null'}`)
     console.log(`✅ Final values: MarketCap=${marketCap ? (marketCap / 1000000).toFixed(2) + 'M' : 'null'}, Supply=${tokenSupply ? tokenSupply.toLocaleString() : 'null'}`)
     
-    // Calculate time range based on timeframe and tweet timestamp
-    const { from, to, resolution, resolutionConfig } = calculateTimeRange(timeframe, tweetTimestamp)
-    
     console.log(`📊 Query params: symbol=${symbol}, from=${from}, to=${to}, resolution=${resolution}`)
     
     // Determine if this looks like a pair address (from DexScreener URL)
     // DexScreener URLs typically contain pair addresses, not individual token addresses
-    const isProbablyPairAddress = symbol.split(':')[0].length > 30 // Long addresses are likely pairs
+    const isProbablyPairAddress = !!pairAddress || symbol.split(':')[0].length > 30 // Long addresses are likely pairs
+    
+    // A chosen pool is charted on its own; the token address is still used for info and market cap
+    const barsSymbol = pairAddress ? `${pairAddress}:${networkId}` : symbol
     
     // Use calculated time range to center data around tweet timestamp
     // Don't use countback when we have specific from/to times as it overrides the time range
     const variables: CodexBarsInput = {
-      symbol,
+      symbol: barsSymbol,
       from, // Use calculated start time
       to,   // Use calculated end time
       resolution,
@@ -194,7 +324,7 @@ export async function GET(request: NextRequest) {
     console.log(`🎯 Using symbolType: ${variables.symbolType} (address length: ${symbol.split(':')[0].length})`)
 
     // Execute GraphQL query using direct HTTP fetch (as per Codex docs)
-    const response = await executeCodexQuery(GET_BARS_QUERY, variables, apiKey)
+    const response = await executeBarsQuery(variables, apiKey)
     
     const barsData = response?.data?.getBars
     console.log(`✅ Codex response received:`, barsData?.s || 'no status', 'status:', barsData?.o?.length || 0, 'data points')
@@ -206,7 +336,7 @@ export async function GET(request: NextRequest) {
       const fallbackSymbolType = variables.symbolType === 'POOL' ? 'TOKEN' : 'POOL'
       console.log(`🔄 Retrying with ${fallbackSymbolType} symbolType and same time range...`)
       variables.symbolType = fallbackSymbolType
-      const retryResponse = await executeCodexQuery(GET_BARS_QUERY, variables, apiKey)
+      const retryResponse = await executeBarsQuery(variables, apiKey)
       
       const retryBarsData = retryResponse?.data?.getBars
       console.log(`🔍 Retry response: ${retryBarsData?.s || 'no status'}, ${retryBarsData?.o?.length || 0} data points`)
@@ -246,13 +376,13 @@ export async function GET(request: NextRequest) {
             }
           }
           
-          return NextResponse.json(formatCodexResponse(recentBarsData, displaySymbol, marketCap, tokenSupply))
+          return respondWithBars(formatCodexResponse(recentBarsData, displaySymbol, marketCap, tokenSupply), recentDataVariables.to)
         }
         
         // Try fallback resolution if recent data also failed
         console.log(`🔄 Trying fallback resolution: ${resolutionConfig.fallback}`)
         const fallbackVariables = { ...variables, resolution: resolutionConfig.fallback }
-        const fallbackResponse = await executeCodexQuery(GET_BARS_QUERY, fallbackVariables, apiKey)
+        const fallbackResponse = await executeBarsQuery(fallbackVariables, apiKey)
         
         const fallbackBarsData = fallbackResponse?.data?.getBars
         console.log(`🔍 Fallback resolution response: ${fallbackBarsData?.s || 'no status'}, ${fallbackBarsData?.o?.length || 0} data points`)
@@ -279,35 +409,7 @@ export async function GET(request: NextRequest) {
             }
           }
           
-          return NextResponse.json(formatCodexResponse(fallbackBarsData, displaySymbol, marketCap, tokenSupply))
-        }
-        
-        // If this is Solana, try different network IDs
-        const addressPart = symbol.split(':')[0]
-        const currentNetworkId = symbol.split(':')[1]
-        
-        if (currentNetworkId === '1399811149') {
-          console.log('🔄 Trying alternative Solana network IDs...')
-          
-          // Try other possible Solana network IDs (though 1399811149 should be correct)
-          // Note: Only trying Solana-compatible network IDs, not Ethereum (1)
-          const solanaNetworkIds = ['101', '900']
-          
-          for (const networkId of solanaNetworkIds) {
-            if (networkId === currentNetworkId) continue // Skip the one we already tried
-            
-            const testSymbol = `${addressPart}:${networkId}`
-            console.log(`🔍 Trying Solana network ID: ${networkId} (${testSymbol})`)
-            
-            const testVariables = { ...variables, symbol: testSymbol }
-            const testResponse = await executeCodexQuery(GET_BARS_QUERY, testVariables, apiKey)
-            
-            const testBarsData = testResponse?.data?.getBars
-            if (testBarsData && testBarsData.s === 'ok' && testBarsData.o && testBarsData.o.length > 0) {
-              console.log(`✅ Success with Solana network ID: ${networkId}`)
-              return NextResponse.json(formatCodexResponse(testBarsData, displaySymbol))
-            }
-          }
+          return respondWithBars(formatCodexResponse(fallbackBarsData, displaySymbol, marketCap, tokenSupply), to, resolutionConfig.fallback)
         }
         
         return NextResponse.json(
@@ -331,13 +433,6 @@ export async function GET(request: NextRequest) {
         if (tweetTime < earliestDataTime) {
           console.log(`⚠️ Tweet posted before chart data exists. Tweet: ${new Date(tweetTime * 1000).toISOString()}, Earliest data: ${new Date(earliestDataTime * 1000).toISOString()}`)
           
-          // For PUMP specifically, we'll return the available data instead of erroring
-          // This allows us to show the actual chart from when PUMP started trading
-          if (displaySymbol.includes('PUMP')) {
-            console.log('🔧 PUMP special case: Returning available data despite tweet being before earliest data')
-            return NextResponse.json(formatCodexResponse(retryBarsData, displaySymbol, marketCap, tokenSupply))
-          }
-          
           return NextResponse.json(
             { 
               error: `Tweet was posted before chart data exists for ${displaySymbol}`,
@@ -350,7 +445,7 @@ export async function GET(request: NextRequest) {
         }
       }
       
-      return NextResponse.json(formatCodexResponse(retryBarsData, displaySymbol, marketCap, tokenSupply))
+      return respondWithBars(formatCodexResponse(retryBarsData, displaySymbol, marketCap, tokenSupply))
     }
 
     // Check if tweet timestamp is before available data (main success path)
@@ -361,13 +456,6 @@ export async function GET(request: NextRequest) {
       if (tweetTime < earliestDataTime) {
         console.log(`⚠️ Tweet posted before chart data exists. Tweet: ${new Date(tweetTime * 1000).toISOString()}, Earliest data: ${new Date(earliestDataTime * 1000).toISOString()}`)
         
-        // For PUMP specifically, we'll return the available data instead of erroring
-        // This allows us to show the actual chart from when PUMP started trading
-        if (displaySymbol.includes('PUMP')) {
-          console.log('🔧 PUMP special case: Returning available data despite tweet being before earliest data')
-          return NextResponse.json(formatCodexResponse(barsData, displaySymbol, marketCap, tokenSupply))
-        }
-        
         return NextResponse.json(
           { 
             error: `Tweet was posted before chart data exists for ${displaySymbol}`,
@@ -382,7 +470,7 @@ export async function GET(request: NextRequest) {
 
     // Format and return the response
     const formattedData = formatCodexResponse(barsData, displaySymbol, marketCap, tokenSupply)
-    return NextResponse.json(formattedData)
+    return respondWithBars(formattedData)
 
   } catch (error) {
     console.error('❌ Codex API error:', error)
@@ -411,89 +499,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Helper function to calculate time range based on timeframe and tweet timestamp
-function calculateTimeRange(timeframe: string, tweetTimestamp?: string | null) {
-  const now = Date.now()
-  const tweetTime = tweetTimestamp ? new Date(tweetTimestamp).getTime() : now
-  
-  // Debug timestamp conversion
-  if (tweetTimestamp) {
-    console.log(`🕐 Tweet timestamp: ${tweetTimestamp}`)
-    console.log(`🕐 Parsed tweet time: ${new Date(tweetTime).toISOString()}`)
-    console.log(`🕐 Current time: ${new Date(now).toISOString()}`)
-  }
-  
-  // Resolution mapping for Codex API with fallbacks for unsupported resolutions
-  // Using highest resolution possible to capture ALL spikes across all intervals
-  const resolutionMap: Record<string, { primary: string; fallback: string }> = {
-    '5m': { primary: '1', fallback: '5' },       // 1 minute for maximum spike capture
-    '15m': { primary: '1', fallback: '5' },      // 1 minute for maximum spike capture  
-    '1h': { primary: '5', fallback: '15' },      // 5 minutes for high resolution
-    '4h': { primary: '15', fallback: '60' },     // 15 minutes for detailed capture
-    '6h': { primary: '15', fallback: '60' },     // 15 minutes for detailed capture
-    '1d': { primary: '60', fallback: '240' },    // 1 hour for comprehensive coverage
-    '1w': { primary: '240', fallback: '1D' },    // 4 hours for weekly view with spike capture
-    '1m': { primary: '1D', fallback: '7D' }      // 1 day for monthly view with comprehensive coverage
-  }
-  
-  const resolutionConfig = resolutionMap[timeframe] || { primary: '60', fallback: '240' }
-  const resolution = resolutionConfig.primary
-  
-  console.log(`📊 Using HIGH-RESOLUTION: ${resolution} for timeframe: ${timeframe} (fallback: ${resolutionConfig.fallback})`)
-  console.log(`🎯 Spike capture mode: UNFILTERED stats + HIGH prices + ${resolution}-minute resolution`)
-  
-  // Time range calculation - center around tweet time or use recent data
-  let from: number, to: number
-  
-  if (tweetTimestamp) {
-    // For monthly interval, show 2 months before tweet timestamp up to present
-    if (timeframe === '1m') {
-      const monthsBeforeTweet = 60 * 24 * 60 * 60 * 1000 // 2 months before tweet
-      from = Math.floor((tweetTime - monthsBeforeTweet) / 1000)
-      to = Math.floor(now / 1000)
-      console.log(`📅 Monthly chart: showing 2 months before tweet (${new Date(tweetTime).toISOString()}) up to present`)
-      console.log(`📅 Time range: ${new Date(from * 1000).toISOString()} to ${new Date(to * 1000).toISOString()}`)
-    } else {
-      // Center the chart around the tweet time with improved ranges for better anchor visibility
-      const timeRanges: Record<string, number> = {
-        '5m': 3 * 60 * 60 * 1000,      // 3 hours total (1.5h before/after tweet)
-        '15m': 8 * 60 * 60 * 1000,     // 8 hours total (4h before/after tweet)
-        '1h': 16 * 60 * 60 * 1000,     // 16 hours total (8h before/after tweet)
-        '4h': 5 * 24 * 60 * 60 * 1000, // 5 days total (2.5d before/after tweet)
-        '6h': 8 * 24 * 60 * 60 * 1000, // 8 days total (4d before/after tweet)
-        '1d': 30 * 24 * 60 * 60 * 1000, // 30 days total (15d before/after tweet)
-        '1w': 90 * 24 * 60 * 60 * 1000  // 90 days total (45d before/after tweet)
-      }
-      
-      const totalRange = timeRanges[timeframe] || 16 * 60 * 60 * 1000
-      const halfRange = totalRange / 2
-      
-      // Ensure exact centering around tweet time
-      from = Math.floor((tweetTime - halfRange) / 1000)
-      to = Math.floor((tweetTime + halfRange) / 1000)
-      
-      console.log(`⚖️ Centering chart: tweet at ${new Date(tweetTime).toISOString()}, range: ${totalRange/1000/60/60}h total`)
-      console.log(`📅 Time range: ${new Date(from * 1000).toISOString()} to ${new Date(to * 1000).toISOString()}`)
-    }
-  } else {
-    // Use recent data ending at current time
-    const timeRanges: Record<string, number> = {
-      '5m': 4 * 60 * 60 * 1000,      // Last 4 hours
-      '15m': 24 * 60 * 60 * 1000,    // Last 24 hours
-      '1h': 7 * 24 * 60 * 60 * 1000, // Last 7 days
-      '4h': 30 * 24 * 60 * 60 * 1000, // Last 30 days
-      '6h': 30 * 24 * 60 * 60 * 1000, // Last 30 days
-      '1d': 90 * 24 * 60 * 60 * 1000, // Last 90 days
-      '1w': 365 * 24 * 60 * 60 * 1000, // Last 365 days (1 year)
-      '1m': 365 * 24 * 60 * 60 * 1000 // Last 365 days (1 year)
-    }
-    
-    const range = timeRanges[timeframe] || 24 * 60 * 60 * 1000
-    from = Math.floor((now - range) / 1000)
-    to = Math.floor(now / 1000)
-  }
-  
-  return { from, to, resolution, resolutionConfig }
+type CodexFormattedResponse = ReturnType<typeof formatCodexResponse>
+type CodexBarsPayload = CodexFormattedResponse & {
+  resolution: string
+  pair?: PairSummary
+  totalSupply?: number // Fully diluted supply, for the FDV axis
+  quoteCurrency?: QuoteCurrency // Asset the bars are denominated in (USD when absent)
+  supplies?: number[] // Token supply at each bar
+  marketCaps?: number[] // Price × supply at each bar
 }
 
 // Helper function to format Codex BarsResponse for our chart component
@@ -501,6 +514,10 @@ function formatCodexResponse(barsData: CodexBarsResponse, displaySymbol: string
   const prices: number[] = []
   const volumes: number[] = []
   const timestamps: string[] = []
+  const opens: number[] = []
+  const highs: number[] = []
+  const lows: number[] = []
+  const closes: number[] = []
   
   // Validate BarsResponse data
   if (!barsData || barsData.s !== 'ok' || !barsData.o || barsData.o.length === 0) {
@@ -510,6 +527,10 @@ function formatCodexResponse(barsData: CodexBarsResponse, displaySymbol: string
       prices: [],
       volumes: [],
       timestamps: [],
+      opens: [],
+      highs: [],
+      lows: [],
+      closes: [],
       currentPrice: 0,
       priceChange24h: 0,
       source: 'codex',
@@ -526,6 +547,14 @@ function formatCodexResponse(barsData: CodexBarsResponse, displaySymbol: string
     const highPrice = barsData.h[i] || barsData.c[i] || barsData.o[i] || 0
     prices.push(highPrice)
     
+    // Keep the full OHLC bar for candlestick rendering (missing values fall back to the nearest known price)
+    const close = barsData.c[i] || barsData.o[i] || highPrice
+    const open = barsData.o[i] || close
+    opens.push(open)
+    highs.push(Math.max(highPrice, open, close))
+    lows.push(Math.min(barsData.l[i] || Math.min(open, close), open, close))
+    closes.push(close)
+    
     // Convert volume from string to number
     const volumeStr = barsData.volume?.[i] || '0'
     volumes.push(parseFloat(volumeStr))
@@ -556,6 +585,10 @@ function formatCodexResponse(barsData: CodexBarsResponse, displaySymbol: string
     prices,
     volumes,
     timestamps,
+    opens,
+    highs,
+    lows,
+    closes,
     currentPrice,
     priceChange24h,
     marketCap: finalMarketCap,
@@ -569,6 +602,35 @@ function formatCodexResponse(barsData: CodexBarsResponse, displaySymbol: string
   return response
 }
 
+/**
+ * USD bars divided by the quote asset's USD close at each bar (its last close at or before
+ * the bar, or its first close for bars that predate it). Volumes stay in USD.
+ */
+function divideByQuote(data: CodexFormattedResponse, quoteData: CodexFormattedResponse, quoteCurrency: QuoteCurrency): CodexFormattedResponse | null {
+  const aligned = alignToTimestamps(data.timestamps, quoteData.timestamps, quoteData.closes)
+  const firstRate = aligned.find(rate => rate !== null)
+  if (!firstRate || !('marketCap' in data)) return null // No bars to divide
+  const rates = aligned.map(rate => rate ?? firstRate)
+  const latestRate = rates[rates.length - 1]
+  const divide = (values: number[]) => values.map((value, i) => value / rates[i])
+
+  const prices = divide(data.prices)
+  const currentPrice = prices[prices.length - 1] || 0
+  const price24hAgo = prices.length > 24 ? prices[prices.length - 24] : prices[0]
+  return {
+    ...data,
+    symbol: `${data.symbol.split('/')[0]}/${quoteCurrency.symbol}`,
+    prices,
+    opens: divide(data.opens),
+    highs: divide(data.highs),
+    lows: divide(data.lows),
+    closes: divide(data.closes),
+    currentPrice,
+    priceChange24h: price24hAgo ? ((currentPrice - price24hAgo) / price24hAgo) * 100 : 0,
+    marketCap: data.marketCap ? data.marketCap / latestRate : undefined,
+  }
+}
+
 // Helper function to execute GraphQL query using direct HTTP fetch (as per Codex docs)
 async function executeCodexQuery(query: string, variables: any, apiKey: string) {
   const response = await fetch('https://graph.codex.io/graphql', {
@@ -599,13 +661,53 @@ async function executeCodexQuery(query: string, variables: any, apiKey: string)
   return data
 }
 
+// Longer windows (tweet to now, several tweets) are fetched in pages of MAX_BARS_PER_PAGE
+async function executeBarsQuery(variables: CodexBarsInput, apiKey: string) {
+  const pageSeconds = MAX_BARS_PER_PAGE * getResolutionSeconds(variables.resolution)
+  if (variables.countback || variables.to - variables.from <= pageSeconds) {
+    return executeCodexQuery(GET_BARS_QUERY, variables, apiKey)
+  }
+
+  // Keep the most recent pages when the window is too long even for pagination
+  const firstPageFrom = Math.max(variables.from, variables.to - pageSeconds * MAX_BAR_PAGES)
+  if (firstPageFrom > variables.from) {
+    console.log(`⚠️ Window exceeds ${MAX_BAR_PAGES} pages at resolution ${variables.resolution}, starting at ${new Date(firstPageFrom * 1000).toISOString()}`)
+  }
+
+  const merged: CodexBarsResponse = { o: [], h: [], l: [], c: [], volume: [], t: [], s: 'no_data' }
+  let lastResponse: any = null
+
+  for (let pageFrom = firstPageFrom; pageFrom < variables.to; pageFrom += pageSeconds) {
+    const pageTo = Math.min(variables.to, pageFrom + pageSeconds)
+    lastResponse = await executeCodexQuery(GET_BARS_QUERY, { ...variables, from: pageFrom, to: pageTo }, apiKey)
+    const page: CodexBarsResponse | undefined = lastResponse?.data?.getBars
+    if (!page || page.s !== 'ok' || !page.t?.length) continue
+
+    for (let i = 0; i < page.t.length; i++) {
+      // Pages share their boundary bar
+      if (merged.t.length > 0 && page.t[i] <= merged.t[merged.t.length - 1]) continue
+      merged.o.push(page.o[i])
+      merged.h.push(page.h[i])
+      merged.l.push(page.l[i])
+      merged.c.push(page.c[i])
+      merged.volume.push(page.volume?.[i])
+      merged.t.push(page.t[i])
+    }
+    merged.s = 'ok'
+  }
+
+  console.log(`📚 Paginated getBars: ${merged.t.length} bars across ${Math.ceil((variables.to - firstPageFrom) / pageSeconds)} pages`)
+  return { ...lastResponse, data: { getBars: merged } }
+}
+
 // Function to get token information (symbol, name, marketcap, supply, etc.)
 async function getTokenInfo(address: string, networkId: string, apiKey: string): Promise<{ 
   symbol?: string; 
   name?: string; 
   marketCap?: number; 
   totalSupply?: number; 
-  circulatingSupply?: number 
+  circulatingSupply?: number;
+  decimals?: number 
 } | null> {
   try {
     console.log(`🔍 Fetching token info for ${address}:${networkId}`)
@@ -651,7 +753,9 @@ async function getTokenInfo(address: string, networkId: string, apiKey: string):
       if (marketCap) console.log(`💰 Market Cap: $${(marketCap / 1000000).toFixed(2)}M`)
       if (totalSupply) console.log(`🪙 Total Supply: ${totalSupply.toLocaleString()}`)
       
-      return { symbol, name, marketCap, totalSupply, circulatingSupply }
+      const decimals = typeof token.decimals === 'number' ? token.decimals : undefined
+      
+      return { symbol, name, marketCap, totalSupply, circulatingSupply, decimals }
     }
 
     console.log('⚠️ No token info found')
@@ -662,6 +766,51 @@ async function getTokenInfo(address: string, networkId: string, apiKey: string):
   }
 }
 
+// Fetch a token's mint/burn history as decimal-adjusted supply changes (null if the lookup fails)
+const MAX_LIFECYCLE_EVENT_PAGES = 10
+
+async function getSupplyChangeEvents(address: string, networkId: string, decimals: number, apiKey: string): Promise<SupplyChangeEvent[] | null> {
+  try {
+    const events: SupplyChangeEvent[] = []
+    let cursor: string | null = null
+    
+    for (let page = 0; page < MAX_LIFECYCLE_EVENT_PAGES; page++) {
+      const response = await executeCodexQuery(TOKEN_LIFECYCLE_EVENTS_QUERY, {
+        query: { address, networkId: parseInt(networkId) },
+        cursor,
+        limit: 200
+      }, apiKey)
+      
+      const connection = response?.data?.tokenLifecycleEvents
+      if (!connection) {
+        console.log('⚠️ No lifecycle events returned, using current supply for every bar')
+        return null
+      }
+      
+      for (const item of connection.items as CodexTokenLifecycleEvent[]) {
+        const amount = parseFloat(item.data?.amount || '0') / Math.pow(10, decimals)
+        if (!amount) continue
+        events.push({ timestamp: item.timestamp, delta: item.eventType === 'BURN' ? -amount : amount })
+      }
+      
+      cursor = connection.cursor
+      if (!cursor) break
+    }
+    
+    // A partial history would give every bar before the cut the wrong supply
+    if (cursor) {
+      console.log(`⚠️ More than ${MAX_LIFECYCLE_EVENT_PAGES} pages of mint/burn events for ${address}:${networkId}, using current supply for every bar`)
+      return null
+    }
+    
+    console.log(`✅ Found ${events.length} mint/burn events for ${address}:${networkId}`)
+    return events
+  } catch (error) {
+    console.log('⚠️ Lifecycle events fetch failed (non-blocking):', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
 export async function POST(request: NextRequest) {
   return NextResponse.json(
     { error: 'Method not allowed. Use GET instead.' },
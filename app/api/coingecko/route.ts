@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { CoinGeckoHistoricalResponse, CoinGeckoTokenInfo } from '@/lib/api'
+import { buildBarCacheKey, getBarCacheTtl, readBarCache, writeBarCache } from '@/lib/bar-cache'
+import { calculateTimeRange } from '@/lib/time-range'
+import { parseChartWindowParams } from '@/lib/timeframes'
+import { SPOT_ASSET_AXIS_MODE } from '@/lib/token-config'
+
+// Demo keys use the public host, pro keys the pro host
+function getCoinGeckoConfig() {
+  const apiKey = process.env.COINGECKO_API_KEY
+  const isPro = process.env.COINGECKO_API_PLAN === 'pro'
+
+  const headers: Record<string, string> = { accept: 'application/json' }
+  if (apiKey) {
+    headers[isPro ? 'x-cg-pro-api-key' : 'x-cg-demo-api-key'] = apiKey
+  }
+
+  return {
+    baseUrl: isPro ? 'https://pro-api.coingecko.com/api/v3' : 'https://api.coingecko.com/api/v3',
+    headers,
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  // Get parameters from query string
+  const id = searchParams.get('id')
+  const timeframe = searchParams.get('timeframe') || '1h'
+  const tweetTimestamp = searchParams.get('tweetTimestamp')
+  const chartWindow = parseChartWindowParams(searchParams) // Before/after the tweet, interval default when absent
+
+  if (!id) {
+    return NextResponse.json(
+      { error: 'CoinGecko id parameter is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    console.log(`🦎 Fetching CoinGecko market chart for ${id}, timeframe: ${timeframe}`)
+
+    const { from, to, resolution } = calculateTimeRange(timeframe, tweetTimestamp, chartWindow)
+
+    const cacheKey = buildBarCacheKey({ symbol: `coingecko:${id}`, timeframe, resolution, from, to })
+    const cached = await readBarCache<CoinGeckoFormattedResponse>(cacheKey)
+    if (cached) {
+      console.log(`⚡ Bar cache hit (${cached.metadata.store}): ${cacheKey}`)
+      return NextResponse.json({ ...cached.value, cache: cached.metadata })
+    }
+
+    const { baseUrl, headers } = getCoinGeckoConfig()
+
+    // CoinGecko picks the granularity from the range: 5-minute (<1 day), hourly (<90 days), daily beyond
+    const chartResponse = await fetch(
+      `${baseUrl}/coins/${encodeURIComponent(id)}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+      { headers }
+    )
+
+    if (chartResponse.status === 404) {
+      return NextResponse.json(
+        { error: `Unknown CoinGecko id: ${id}`, fallbackAvailable: false },
+        { status: 404 }
+      )
+    }
+
+    if (!chartResponse.ok) {
+      throw new Error(`HTTP ${chartResponse.status}: ${chartResponse.statusText}`)
+    }
+
+    const history: CoinGeckoHistoricalResponse = await chartResponse.json()
+    console.log(`✅ CoinGecko returned ${history.prices?.length || 0} price points`)
+
+    if (!history.prices || history.prices.length === 0) {
+      return NextResponse.json(
+        { error: `No CoinGecko history for ${id} in the requested window`, fallbackAvailable: true },
+        { status: 404 }
+      )
+    }
+
+    // Check if tweet timestamp is before available data (coins listed after the tweet)
+    if (tweetTimestamp) {
+      const tweetTime = new Date(tweetTimestamp).getTime()
+      const earliestDataTime = history.prices[0][0]
+
+      if (tweetTime < earliestDataTime) {
+        console.log(`⚠️ Tweet posted before CoinGecko data exists. Tweet: ${new Date(tweetTime).toISOString()}, Earliest data: ${new Date(earliestDataTime).toISOString()}`)
+        return NextResponse.json(
+          {
+            error: `Tweet was posted before chart data exists on CoinGecko for ${id}`,
+            tweetTime: new Date(tweetTime).toISOString(),
+            earliestDataTime: new Date(earliestDataTime).toISOString(),
+            warning: 'The tweet timestamp is before any available price data for this coin'
+          },
+          { status: 422 }
+        )
+      }
+    }
+
+    // Coin info is optional - only used for the display symbol
+    let tokenInfo: CoinGeckoTokenInfo | null = null
+    try {
+      const infoResponse = await fetch(
+        `${baseUrl}/coins/${encodeURIComponent(id)}?localization=false&tickers=false&market_data=false&community_data=false&developer_data=false`,
+        { headers }
+      )
+      if (infoResponse.ok) {
+        tokenInfo = await infoResponse.json()
+      }
+    } catch (error) {
+      console.log(`⚠️ CoinGecko coin info failed (non-blocking): ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    const formattedData = formatCoinGeckoResponse(history, tokenInfo?.symbol || id, getCoinGeckoResolution(from, to))
+    const cache = await writeBarCache(cacheKey, formattedData, getBarCacheTtl(to, resolution))
+    return NextResponse.json({ ...formattedData, cache })
+
+  } catch (error) {
+    console.error('❌ CoinGecko API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch data from CoinGecko API', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+type CoinGeckoFormattedResponse = ReturnType<typeof formatCoinGeckoResponse>
+
+// Granularity CoinGecko picks for a market_chart/range window, in Codex resolution notation
+function getCoinGeckoResolution(from: number, to: number): string {
+  const days = (to - from) / (24 * 60 * 60)
+  if (days <= 1) return '5'
+  if (days <= 90) return '60'
+  return '1D'
+}
+
+// Format CoinGecko [timestamp, value] series into our chart response shape
+function formatCoinGeckoResponse(history: CoinGeckoHistoricalResponse, symbol: string, resolution: string) {
+  // market_caps and total_volumes share the price timestamps, but look them up by time to be safe
+  const marketCapByTime = new Map(history.market_caps?.map(([time, value]) => [time, value]) || [])
+  const volumeByTime = new Map(history.total_volumes?.map(([time, value]) => [time, value]) || [])
+
+  const prices = history.prices.map(([, price]) => price)
+  const timestamps = history.prices.map(([time]) => new Date(time).toISOString())
+  const marketCaps = history.prices.map(([time]) => marketCapByTime.get(time) || 0)
+  const volumes = history.prices.map(([time]) => volumeByTime.get(time) || 0)
+
+  const currentPrice = prices[prices.length - 1] || 0
+  const currentTime = history.prices[history.prices.length - 1][0]
+  const dayAgoIndex = history.prices.findIndex(([time]) => time >= currentTime - 24 * 60 * 60 * 1000)
+  const price24hAgo = prices[Math.max(0, dayAgoIndex)]
+  const priceChange24h = price24hAgo ? ((currentPrice - price24hAgo) / price24hAgo) * 100 : 0
+  const marketCap = marketCaps[marketCaps.length - 1] || undefined
+
+  return {
+    symbol: `${symbol.toUpperCase()}/USD`,
+    prices,
+    volumes,
+    timestamps,
+    marketCaps,
+    currentPrice,
+    priceChange24h,
+    marketCap,
+    tokenSupply: marketCap && currentPrice ? marketCap / currentPrice : undefined,
+    source: 'coingecko',
+    dataPoints: prices.length,
+    resolution,
+    defaultAxisMode: SPOT_ASSET_AXIS_MODE // Spot assets are charted by price
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use GET instead.' },
+    { status: 405 }
+  )
+}
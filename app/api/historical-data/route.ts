@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { fetchChartDataWithHistory } from '@/lib/api'
+import { NoChartDataError } from '@/lib/chart-providers'
+import { parseChartWindowParams, resolveChartWindow } from '@/lib/timeframes'
 
 /**
  * Unified Historical Data API Endpoint
  * 
  * This endpoint provides a single interface for fetching historical chart data
- * that automatically tries the best available data source:
+ * that automatically tries the best available data source, as ranked by the
+ * chart data provider registry (lib/chart-providers.ts):
  * 1. Codex GraphQL API (real OHLCV data)
- * 2. DexScreener API (current data + generated history)
- * 3. Mock data (fallback)
+ * 2. DexScreener API (current data + generated history, only with illustrative=true)
  */
 
 export async function GET(request: NextRequest) {
@@ -18,6 +20,8 @@ export async function GET(request: NextRequest) {
   const chartUrl = searchParams.get('chartUrl')
   const timeframe = searchParams.get('timeframe') || '1h'
   const tweetTimestamp = searchParams.get('tweetTimestamp')
+  const allowSynthetic = searchParams.get('illustrative') === 'true' // Opt-in for generated history
+  const chartWindow = parseChartWindowParams(searchParams) // windowBefore/windowAfter in seconds around the tweet
   
   if (!chartUrl) {
     return NextResponse.json(
@@ -31,7 +35,7 @@ export async function GET(request: NextRequest) {
     console.log(`⏰ Timeframe: ${timeframe}, Tweet timestamp: ${tweetTimestamp || 'none'}`)
     
     // Use the enhanced chart data fetching that tries Codex first
-    const chartData = await fetchChartDataWithHistory(chartUrl, timeframe, tweetTimestamp || undefined)
+    const chartData = await fetchChartDataWithHistory(chartUrl, timeframe, tweetTimestamp || undefined, { allowSynthetic, window: chartWindow })
     
     console.log(`✅ Historical data fetched successfully from ${chartData.source || 'unknown'} source`)
     console.log(`📊 Data points: ${chartData.dataPoints || chartData.prices.length}`)
@@ -41,12 +45,17 @@ export async function GET(request: NextRequest) {
       ...chartData,
       metadata: {
         source: chartData.source || 'unknown',
+        provider: chartData.provider || null,
+        pair: chartData.pair || null,
+        providerAttempts: chartData.providerAttempts || [],
+        cache: chartData.cache || null,
         dataPoints: chartData.dataPoints || chartData.prices.length,
         timeframe,
+        window: resolveChartWindow(timeframe, chartWindow),
         tweetTimestamp: tweetTimestamp || null,
         fetchedAt: new Date().toISOString(),
-        isRealData: chartData.source === 'codex',
-        isGeneratedData: chartData.source === 'dexscreener'
+        isRealData: !chartData.isSynthetic,
+        isGeneratedData: !!chartData.isSynthetic
       }
     }
     
@@ -55,6 +64,22 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('❌ Historical data API error:', error)
     
+    // Strict mode refused to fabricate bars - not a server failure
+    if (error instanceof NoChartDataError) {
+      return NextResponse.json(
+        {
+          error: error.strict ? 'No real price history available for this token' : 'No chart data available for this token',
+          details: error.message,
+          providerAttempts: error.attempts,
+          suggestion: error.strict ? 'Pass illustrative=true to draw a clearly labelled generated chart.' : undefined,
+          chartUrl,
+          timeframe,
+          tweetTimestamp
+        },
+        { status: 404 }
+      )
+    }
+    
     // Return error details for debugging
     return NextResponse.json(
       { 
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_IMAGE_HEIGHT, DEFAULT_IMAGE_WIDTH, MAX_IMAGE_TWEETS, NotEnoughBarsError, renderChartImage, type Point } from '@/lib/chart-image'
+import { TweetUnavailableError } from '@/lib/api'
+import { NoChartDataError } from '@/lib/chart-providers'
+import { UnrecognisedChartLinkError } from '@/lib/chart-links'
+import { parseQuoteDenomination } from '@/lib/quote-currency'
+import { DEFAULT_TIMEFRAME, parseChartWindowParams } from '@/lib/timeframes'
+import { AXIS_MODES } from '@/lib/token-config'
+
+// Server-rendered chart PNG (lib/chart-image.tsx) so bots and scripts don't need a browser
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const tweetUrls = searchParams.getAll('tweet').filter(Boolean)
+  const token = searchParams.get('token')
+
+  if (tweetUrls.length === 0 || !token) {
+    return NextResponse.json(
+      { error: 'tweet and token parameters are required' },
+      { status: 400 }
+    )
+  }
+
+  if (tweetUrls.length > MAX_IMAGE_TWEETS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_IMAGE_TWEETS} tweets per image (got ${tweetUrls.length})` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    console.log(`🖼️ Rendering ${token} with ${tweetUrls.length} tweet(s)`)
+    const axisParam = searchParams.get('axis')
+    return await renderChartImage(
+      {
+        tweetUrls,
+        token,
+        timeframe: searchParams.get('timeframe') || DEFAULT_TIMEFRAME,
+        chartWindow: parseChartWindowParams(searchParams),
+        axisMode: AXIS_MODES.find(mode => mode.value === axisParam)?.value,
+        quote: parseQuoteDenomination(searchParams.get('quote')),
+        positions: searchParams.getAll('pos').map(parsePosition),
+        width: parseDimension(searchParams.get('width'), DEFAULT_IMAGE_WIDTH, 600, 2400),
+        height: parseDimension(searchParams.get('height'), DEFAULT_IMAGE_HEIGHT, 400, 1600),
+        logScale: searchParams.get('log') === '1',
+      },
+      { 'Cache-Control': 'public, max-age=60' } // Live windows move; don't let CDNs keep a stale chart
+    )
+  } catch (error) {
+    console.error('❌ Render error:', error)
+
+    if (error instanceof UnrecognisedChartLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof TweetUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof NoChartDataError) {
+      return NextResponse.json(
+        { error: error.message, attempts: error.attempts },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof NotEnoughBarsError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to render chart image', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// "x,y" card position in pixels from the chart's top-left, as in the editor
+function parsePosition(value: string): Point {
+  const [x, y] = value.split(',').map(Number)
+  return { x: Number.isFinite(x) ? x : 20, y: Number.isFinite(y) ? y : 20 }
+}
+
+function parseDimension(value: string | null, fallback: number, min: number, max: number): number {
+  const parsed = Number(value)
+  if (!value || !Number.isFinite(parsed)) return fallback
+  return Math.round(Math.min(Math.max(parsed, min), max))
+}
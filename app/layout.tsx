@@ -3,8 +3,10 @@ import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
 import './globals.css'
 import { Toaster } from "@/components/ui/toaster"
+import { SITE_URL } from "@/lib/api-base-url"
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: 'RECHARTED.IO | YOU ARE RECHARTED',
   description: 'The ultimate tool for roasting crypto influencers. Drop their tweets on token charts and watch their predictions age like milk. Perfect for exposing bad takes and celebrating rare wins. Dont get caught being recharted.',
   keywords: 'crypto, twitter, influencers, roast, bad takes, token charts, crypto memes, trading fails, prediction fails',
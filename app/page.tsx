@@ -2,17 +2,41 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback } from "react"
+import { useState, useRef, useCallback, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Download, Move, Zap, Copy } from "lucide-react"
-import TradingChart from "@/components/trading-chart"
+import { Download, Move, Zap, Copy, Plus, X, Link2 } from "lucide-react"
+import TradingChart, { type ChartStyle } from "@/components/trading-chart"
 import TweetOverlay from "@/components/tweet-overlay"
+import DataProvenance from "@/components/data-provenance"
+import CallPerformance from "@/components/call-performance"
+import TokenSearch from "@/components/token-search"
+import ChartWindowPicker from "@/components/chart-window-picker"
+import ChartHistoryGallery from "@/components/chart-history-gallery"
+import BatchExport from "@/components/batch-export"
 import html2canvas from "html2canvas"
-import { fetchTweetData, fetchChartDataWithHistory, testDexScreenerAPI } from "@/lib/api"
+import { fetchTweetData, fetchChartDataWithHistory, fetchTokenPairs, testDexScreenerAPI, type CodexTokenSearchResult } from "@/lib/api"
+import { NoChartDataError } from "@/lib/chart-providers"
+import { UnrecognisedChartLinkError } from "@/lib/chart-links"
+import type { PairSummary } from "@/lib/pair-selection"
+import { spanChartWindow, TIMEFRAMES, type ChartWindow } from "@/lib/timeframes"
+import { AXIS_MODES, DEFAULT_AXIS_MODE, getTokenConfig, getTokenInput, HOTLIST_TOKENS, type AxisMode } from "@/lib/token-config"
+import { DEFAULT_QUOTE_DENOMINATION, QUOTE_DENOMINATIONS, type QuoteDenomination } from "@/lib/quote-currency"
+import { buildPermalink, decodePermalinkState, encodePermalinkState, type PermalinkState } from "@/lib/permalink"
+import {
+  createHistoryId,
+  deleteChartHistoryEntry,
+  listChartHistory,
+  loadEditorDraft,
+  saveChartHistoryEntry,
+  saveEditorDraft,
+  type ChartHistoryEntry,
+} from "@/lib/chart-history"
+import { formatUsdCompact } from "@/lib/utils"
 import { useToast } from "@/hooks/use-toast"
 
 interface TweetData {
@@ -33,96 +57,136 @@ interface ChartData {
   prices: number[]
   timeData: Array<{ time: string; timestamp: number; price: number }>
   chartInstance: any
+  chartStyle?: ChartStyle
+  formatValue?: (value: number) => string // Y-axis format, reused for the tweet anchor labels
 }
 
-interface PopularToken {
-  name: string
-  symbol: string
-  address: string
-  network: string
-  showPrice?: boolean // true for BTC/ETH/SOL, false/undefined for market cap tokens
-}
+// Gallery thumbnails are small JPEGs so a few dozen entries stay light in IndexedDB
+const HISTORY_THUMBNAIL_SCALE = 0.5
+// Let the chart finish drawing and the tweet cards settle before capturing it
+const CHART_CAPTURE_DELAY_MS = 500
 
-// Popular tokens with their addresses for quick selection
-const POPULAR_TOKENS: PopularToken[] = [
-  {
-    name: "Bitcoin",
-    symbol: "BTC",
-    address: "bitcoin",
-    network: "coingecko",
-    showPrice: true // Show price for major tokens
-  },
-  {
-    name: "Ethereum", 
-    symbol: "ETH",
-    address: "ethereum",
-    network: "coingecko",
-    showPrice: true // Show price for major tokens
-  },
-  {
-    name: "Solana",
-    symbol: "SOL", 
-    address: "solana",
-    network: "coingecko",
-    showPrice: true // Show price for major tokens
-  },
-  {
-    name: "PUMP",
-    symbol: "PUMP",
-    address: "pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn",
-    network: "solana"
-    // showPrice: false (default) - Show market cap for smaller tokens
-  }
-]
+// Cascade new tweet cards so they don't stack exactly on top of each other
+const defaultTweetPosition = (index: number): Position => ({ x: 20 + index * 40, y: 20 + index * 40 })
 
 export default function TweetChartAnchor() {
   const { toast } = useToast()
-  const [tweetUrl, setTweetUrl] = useState("https://x.com/a1lon9/status/1945238123908067530")
+  const [tweetUrls, setTweetUrls] = useState<string[]>(["https://x.com/a1lon9/status/1945238123908067530"]) // Every tweet anchored on the chart
   const [chartUrl, setChartUrl] = useState("pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn")
   const [selectedToken, setSelectedToken] = useState<string>("")
+  const [compareTokens, setCompareTokens] = useState("") // Other tokens to overlay as returns, comma or space separated
   const [timeframe, setTimeframe] = useState("1h")
-  const [tweetPosition, setTweetPosition] = useState<Position>({ x: 20, y: 20 })
-  const [isDragging, setIsDragging] = useState(false)
+  const [chartWindow, setChartWindow] = useState<ChartWindow | null>(null) // null = the interval's default window
+  const [renderedWindow, setRenderedWindow] = useState<ChartWindow | undefined>() // Window the current chart was fetched with
+  const [chartStyle, setChartStyle] = useState<ChartStyle>("line")
+  const [axisMode, setAxisMode] = useState<AxisMode | null>(null) // null = the token's configured default
+  const [quote, setQuote] = useState<QuoteDenomination>(DEFAULT_QUOTE_DENOMINATION) // Currency the chart is priced in
+  const [logScale, setLogScale] = useState(false)
+  const [showVolume, setShowVolume] = useState(false)
+  const [allowIllustrative, setAllowIllustrative] = useState(false) // Opt-in for generated (non-real) history
+  const [tokenPairs, setTokenPairs] = useState<{ input: string; pairs: PairSummary[] }>({ input: "", pairs: [] })
+  const [selectedPair, setSelectedPair] = useState<PairSummary | null>(null) // null = best ranked pair
+  const [tweetPositions, setTweetPositions] = useState<Position[]>([defaultTweetPosition(0)]) // One per tweet
+  const [tweetOrder, setTweetOrder] = useState<number[]>([0]) // Tweet indices back to front (last is on top)
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null)
   const [isGenerated, setIsGenerated] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [chartData, setChartData] = useState<ChartData | undefined>()
+  const [restoredFromLink, setRestoredFromLink] = useState(false) // Permalink state applied, chart not generated yet
   const [apiChartData, setApiChartData] = useState<any>(undefined)
-  const [fetchedTweetData, setFetchedTweetData] = useState<TweetData | null>(null)
+  const [fetchedTweets, setFetchedTweets] = useState<TweetData[]>([])
   const [generationId, setGenerationId] = useState(0)
+  const [history, setHistory] = useState<ChartHistoryEntry[]>([]) // Past recharts in this browser, newest first
+  const [pendingHistorySave, setPendingHistorySave] = useState(false) // New chart generated, save it once it has drawn
+  const [pendingExport, setPendingExport] = useState(false) // Reopened from the gallery to download, export once it has drawn
+  const [draftLoaded, setDraftLoaded] = useState(false) // Autosave only after the saved draft has been applied
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartCardRef = useRef<HTMLDivElement>(null)
 
   // Use fetched tweet data or fallback to mock data
-  const tweetData: TweetData = fetchedTweetData || {
+  const fallbackTweetData: TweetData = {
     username: "alon",
     handle: "@a1lon9",
     text: "fuck it\n\njew mode.",
     timestamp: new Date().toISOString(),
   }
+  const tweets: TweetData[] = fetchedTweets.length > 0 ? fetchedTweets : [fallbackTweetData]
+  // The chart window is anchored on the earliest tweet (see spanChartWindow)
+  const anchorTweet = tweets.reduce((earliest, tweet) => new Date(tweet.timestamp) < new Date(earliest.timestamp) ? tweet : earliest)
+  const tweetUrlList = tweetUrls.map(url => url.trim()).filter(Boolean)
+  const hasTweetUrl = tweetUrlList.length > 0
+  const effectiveAxisMode: AxisMode = axisMode ?? apiChartData?.defaultAxisMode ?? getTokenConfig(chartUrl)?.defaultAxisMode ?? DEFAULT_AXIS_MODE
 
   const handleTokenSelect = async (tokenAddress: string) => {
     if (!tokenAddress) return
     
-    const selectedTokenData = POPULAR_TOKENS.find(token => token.address === tokenAddress)
+    const selectedTokenData = HOTLIST_TOKENS.find(token => token.address === tokenAddress)
     if (selectedTokenData) {
+      // CoinGecko-listed majors are charted by their CoinGecko id (spot price, not wrapped tokens)
+      const tokenInput = getTokenInput(selectedTokenData)
       setSelectedToken(tokenAddress)
-      setChartUrl(tokenAddress)
+      setChartUrl(tokenInput)
+      setAxisMode(null)
       
       // Auto-generate chart if tweet URL is already filled
-      if (tweetUrl) {
+      if (hasTweetUrl) {
         console.log(`🚀 Auto-generating chart for ${selectedTokenData.name} (${selectedTokenData.symbol})`)
-        // Call generate function directly with the new token address
-        await generateChart(tokenAddress)
+        // Call generate function directly with the new token input
+        await generateChart(tokenInput)
       }
     }
   }
 
-  const generateChart = async (urlOverride?: string) => {
+  const handleSearchSelect = async (token: CodexTokenSearchResult) => {
+    // Qualify the address with its chain so EVM tokens outside Ethereum resolve to the right network
+    const tokenInput = token.chain ? `${token.chain}:${token.address}` : token.address
+    setSelectedToken("")
+    setChartUrl(tokenInput)
+    setAxisMode(null)
+    
+    if (hasTweetUrl) {
+      console.log(`🚀 Auto-generating chart for ${token.symbol} (${token.name}) on ${token.chain || `network ${token.networkId}`}`)
+      await generateChart(tokenInput)
+    }
+  }
+
+  // Load the pools the token trades in for the pair picker (once per token input)
+  const loadTokenPairs = async (targetUrl: string) => {
+    if (tokenPairs.input === targetUrl) return
+    try {
+      const pairs = await fetchTokenPairs(targetUrl)
+      setTokenPairs({ input: targetUrl, pairs })
+    } catch (error) {
+      console.log(`⚠️ Pair lookup failed (non-blocking): ${error instanceof Error ? error.message : "Unknown error"}`)
+      setTokenPairs({ input: targetUrl, pairs: [] })
+    }
+  }
+
+  // Keep the positions of tweets that were already placed; new ones get a cascaded spot on top
+  const applyFetchedTweets = (results: TweetData[]) => {
+    setFetchedTweets(results)
+    setTweetPositions(prev => results.map((_, index) => prev[index] || defaultTweetPosition(index)))
+    setTweetOrder(prev => {
+      const kept = prev.filter(index => index < results.length)
+      return [...kept, ...results.map((_, index) => index).filter(index => !kept.includes(index))]
+    })
+  }
+
+  const generateChart = async (
+    urlOverride?: string,
+    pairOverride?: PairSummary | null,
+    rangeOverride?: { timeframe: string; chartWindow: ChartWindow | null } // Interval/window picked in the same event (state isn't updated yet)
+  ) => {
     const targetUrl = urlOverride || chartUrl
+    const targetTimeframe = rangeOverride?.timeframe || timeframe
+    const targetWindow = (rangeOverride ? rangeOverride.chartWindow : chartWindow) || undefined
+    // A pair chosen for another token doesn't apply to this one
+    const pair = pairOverride !== undefined ? pairOverride : (tokenPairs.input === targetUrl ? selectedPair : null)
+    if (pair !== selectedPair) setSelectedPair(pair)
     setIsLoading(true)
     setChartData(undefined) // Reset chart data
 
-    let tweetDataResult: any = null // Declare outside try block for error handling access
+    let tweetResults: TweetData[] = [] // Declare outside try block for error handling access
 
     try {
       // Test API first if it's a new URL
@@ -131,12 +195,22 @@ export default function TweetChartAnchor() {
         await testDexScreenerAPI()
       }
 
-      // Fetch tweet data first to get the timestamp
-      tweetDataResult = await fetchTweetData(tweetUrl)
-      console.log("Fetched tweet data:", tweetDataResult)
+      // Fetch every tweet first to get the timestamps
+      tweetResults = await Promise.all(tweetUrlList.map(url => fetchTweetData(url)))
+      console.log("Fetched tweet data:", tweetResults)
+
+      // Several tweets: anchor on the earliest and stretch the window so the latest is in view too
+      const spanned = spanChartWindow(targetTimeframe, targetWindow, tweetResults.map(tweet => new Date(tweet.timestamp).getTime()))
+      const fetchWindow = tweetResults.length > 1 ? spanned.chartWindow : targetWindow
+      const anchorTimestamp = new Date(spanned.anchorTime).toISOString()
+      if (tweetResults.length > 1) {
+        console.log(`🧵 ${tweetResults.length} tweets: anchoring on ${anchorTimestamp}, window stretched to ${(spanned.chartWindow.afterMs / 1000 / 60 / 60).toFixed(1)}h after`)
+      }
       
-      // Now fetch chart data with real historical data (CoinGecko -> Birdeye -> Generated)
-      const chartDataResult = await fetchChartDataWithHistory(targetUrl, timeframe, tweetDataResult.timestamp)
+      // Now fetch chart data with real historical data (CoinGecko -> Codex -> Birdeye, generated only when opted in)
+      const compareWith = compareTokens.split(/[\s,]+/).filter(Boolean)
+      const chartDataResult = await fetchChartDataWithHistory(targetUrl, targetTimeframe, anchorTimestamp, { allowSynthetic: allowIllustrative, pair: pair || undefined, window: fetchWindow, compareWith, quote })
+      void loadTokenPairs(targetUrl)
       console.log("Fetched chart data with historical API integration:", chartDataResult)
       
       // Debug marketCap data specifically
@@ -160,63 +234,73 @@ export default function TweetChartAnchor() {
         console.log(`🪙 Frontend received TokenSupply: ${chartDataResult.tokenSupply.toLocaleString()}`)
       }
 
+      // Only Codex bars can be re-denominated; anything else stays in USD
+      if (quote !== "USD" && !chartDataResult.quoteCurrency) {
+        toast({
+          title: "Showing USD Prices",
+          description: `${chartDataResult.provider || "This source"} bars couldn't be priced in the ${quote === "NATIVE" ? "chain's native coin" : "paired token"}, so the chart stays in USD.`,
+          duration: 6000,
+        })
+      }
+
+      if (chartDataResult.comparisonFailures?.length) {
+        toast({
+          title: "Some Comparisons Skipped",
+          description: `Couldn't load real price history for ${chartDataResult.comparisonFailures.map(failure => failure.input).join(", ")}.`,
+          variant: "destructive",
+          duration: 6000,
+        })
+      }
+
       // Store the fetched data
       setApiChartData(chartDataResult)
-      setFetchedTweetData(tweetDataResult)
+      setRenderedWindow(fetchWindow)
+      applyFetchedTweets(tweetResults)
       setGenerationId(prev => prev + 1) // Increment to force chart re-render
+      setPendingHistorySave(true)
 
       setIsGenerated(true)
     } catch (error) {
       console.error("Error generating chart:", error)
       
-      // Check if this is a tweet timestamp validation error (422 status or specific message)
-      if (error instanceof Error && (error.message.includes('Tweet Timestamp Issue') || error.message.includes('Tweet was posted before') || error.message.includes('422'))) {
+      if (error instanceof UnrecognisedChartLinkError) {
         toast({
-          title: "⚠️ Tweet Before Token Creation",
-          description: "This tweet was posted before the token existed. Showing chart from token creation date instead.",
-          variant: "default",
+          title: "Unrecognised Link",
+          description: error.message,
+          variant: "destructive",
           duration: 6000,
         })
-        
-        // For PUMP specifically, ensure we fallback to DexScreener with correct market cap display
-        console.log(`🔍 Checking if this is PUMP fallback: targetUrl="${targetUrl}"`)
-        if (targetUrl === "pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn") {
-          console.log("🔧 PUMP fallback: Using DexScreener data with market cap display")
-          try {
-            const fallbackData = await fetchChartDataWithHistory(targetUrl, timeframe, undefined) // No tweet timestamp to avoid future date issues
-            setApiChartData({
-              ...fallbackData,
-              isPopularToken: false // Ensure PUMP shows market cap, not price
-            })
-            
-            // Set tweet data if we have it, otherwise use fallback
-            if (tweetDataResult) {
-              setFetchedTweetData(tweetDataResult)
-            } else {
-              // Fallback tweet data if we couldn't fetch it
-              setFetchedTweetData({
-                username: "alon",
-                handle: "@a1lon9", 
-                text: "fuck it\n\njew mode.",
-                timestamp: new Date().toISOString(),
-              })
-            }
-            setGenerationId(prev => prev + 1)
-          } catch (fallbackError) {
-            console.error("PUMP fallback also failed:", fallbackError)
-          }
-        }
-      } else {
+        setIsGenerated(false)
+        return
+      }
+      
+      // Strict mode: no provider has real bars for this token, so don't show a made-up chart
+      if (error instanceof NoChartDataError && error.strict) {
+        // Unsupported chains get their own message rather than a generic "no history"
+        const unsupportedChain = error.attempts.find(attempt => attempt.status === "failed" && attempt.reason.includes("is not supported by Codex"))
         toast({
-          title: "Chart Generation Error",
-          description: "There was an issue generating the chart, but fallback data will be used.",
+          title: unsupportedChain ? "Unsupported Chain" : "No Real Price History",
+          description: unsupportedChain
+            ? `${unsupportedChain.reason}, and no other real-data provider covers it.`
+            : "We couldn't find real price history for this token. Enable \"Allow illustrative chart\" to render a clearly labelled generated chart instead.",
           variant: "destructive",
-          duration: 5000,
+          duration: 8000,
         })
+        setApiChartData(undefined)
+        setIsGenerated(false)
+        return
       }
       
-      // Still set as generated so user can see the chart with fallback data
-      setIsGenerated(true)
+      // Other failures: nothing real or generated to draw (a tweet that predates the token's history
+      // already comes back as recent bars, flagged historicalDataUnavailable)
+      toast({
+        title: "Chart Generation Error",
+        description: "There was an issue loading price data for this token. No chart was generated.",
+        variant: "destructive",
+        duration: 5000,
+      })
+      setApiChartData(undefined)
+      setIsGenerated(false)
     } finally {
       setIsLoading(false)
     }
@@ -226,28 +310,141 @@ export default function TweetChartAnchor() {
     await generateChart()
   }
 
+  // Inputs, card layout and chart options from a permalink, the autosaved draft or a gallery entry
+  const applyEditorState = (state: PermalinkState) => {
+    setTweetUrls(state.tweetUrls.length > 0 ? state.tweetUrls : [""]) // A draft may have no tweet yet
+    setChartUrl(state.chartUrl)
+    setSelectedToken(state.selectedToken)
+    setTimeframe(state.timeframe)
+    setChartWindow(state.chartWindow)
+    setTweetPositions(state.tweetUrls.map((_, index) => state.tweetPositions[index] || defaultTweetPosition(index)))
+    setTweetOrder(state.tweetUrls.map((_, index) => index))
+    setCompareTokens(state.compareTokens)
+    setAxisMode(state.axisMode)
+    setQuote(state.quote)
+    setChartStyle(state.chartStyle)
+    setLogScale(state.logScale)
+    setShowVolume(state.showVolume)
+    setAllowIllustrative(state.allowIllustrative)
+  }
+
+  const getEditorState = (): PermalinkState => ({
+    tweetUrls: tweetUrlList,
+    chartUrl,
+    selectedToken,
+    timeframe,
+    chartWindow,
+    tweetPositions,
+    compareTokens,
+    axisMode,
+    quote,
+    chartStyle,
+    logScale,
+    showVolume,
+    allowIllustrative,
+  })
+
+  // Opening a permalink (#v1....) restores the editor, then regenerates once the state has rendered.
+  // The hash is dropped once applied, so later edits (autosaved) aren't replaced by it on reload.
+  // Otherwise the autosaved draft comes back, with its chart if it was the last one generated.
+  useEffect(() => {
+    const linked = decodePermalinkState(window.location.hash)
+    const draft = linked ? null : loadEditorDraft()
+    if (linked) {
+      console.log(`🔗 Restoring editor from permalink: ${linked.chartUrl} with ${linked.tweetUrls.length} tweet(s)`)
+      applyEditorState(linked)
+      setRestoredFromLink(true)
+      window.history.replaceState(null, "", window.location.pathname + window.location.search)
+    } else if (draft) {
+      applyEditorState(draft)
+    }
+    setDraftLoaded(true)
+
+    listChartHistory()
+      .then(entries => {
+        setHistory(entries)
+        // Card positions may have moved since; the draft's layout wins
+        const latest = entries[0]
+        if (draft && latest && encodePermalinkState({ ...latest.state, tweetPositions: [] }) === encodePermalinkState({ ...draft, tweetPositions: [] })) {
+          openHistoryEntry(latest, draft)
+        }
+      })
+      .catch(error => console.log(`⚠️ Chart history unavailable (non-blocking): ${error instanceof Error ? error.message : "Unknown error"}`))
+  }, [])
+
+  useEffect(() => {
+    if (!restoredFromLink) return
+    setRestoredFromLink(false)
+    void generateChart()
+  }, [restoredFromLink])
+
+  // Autosave the editor so a refresh doesn't lose work
+  useEffect(() => {
+    if (!draftLoaded) return
+    saveEditorDraft(getEditorState())
+  }, [draftLoaded, tweetUrls, chartUrl, selectedToken, timeframe, chartWindow, tweetPositions, compareTokens, axisMode, quote, chartStyle, logScale, showVolume, allowIllustrative])
+
+  // Link that reopens the editor with the current inputs, layout and chart options
+  const handleCopyLink = async () => {
+    const state = getEditorState()
+    const link = buildPermalink(window.location.origin, state)
+    try {
+      await navigator.clipboard.writeText(link)
+      toast({
+        title: "Link Copied",
+        description: "Anyone opening it gets this chart with the same tweets, layout and options.",
+        duration: 3000,
+      })
+    } catch (error) {
+      console.error("Error copying link:", error)
+      toast({
+        title: "Copy Failed",
+        description: `Couldn't access the clipboard. Share this link: ${link}`,
+        variant: "destructive",
+        duration: 5000,
+      })
+    }
+  }
+
   const handleChartReady = useCallback((data: ChartData) => {
     setChartData(data)
   }, [])
 
+  // Exports are strict: only charts built from real bars, or generated charts the user explicitly opted into
+  const canExportChart = () => {
+    if (!apiChartData || (apiChartData.isSynthetic && !allowIllustrative)) {
+      toast({
+        title: "Export Blocked",
+        description: apiChartData
+          ? "This chart uses generated data. Enable \"Allow illustrative chart\" to export it with its illustrative label."
+          : "There is no real price data to export. Generate a chart first.",
+        variant: "destructive",
+        duration: 5000,
+      })
+      return false
+    }
+    return true
+  }
+
   const handleDownload = async () => {
+    if (!canExportChart()) return
     if (chartCardRef.current && chartContainerRef.current) {
       try {
-        // Temporarily constrain tweet position within bounds for capture
-        const originalPosition = tweetPosition
+        // Temporarily constrain tweet positions within bounds for capture
+        const originalPositions = tweetPositions
         const containerRect = chartContainerRef.current.getBoundingClientRect()
         const isMobile = window.innerWidth < 768
         const tweetWidth = isMobile ? 128 : 288
         const tweetHeight = isMobile ? 80 : 120
         
-        // Ensure tweet is fully within container bounds
-        const constrainedPosition = {
-          x: Math.max(0, Math.min(originalPosition.x, containerRect.width - tweetWidth)),
-          y: Math.max(0, Math.min(originalPosition.y, containerRect.height - tweetHeight))
-        }
+        // Ensure every tweet is fully within container bounds
+        const constrainedPositions = originalPositions.map(position => ({
+          x: Math.max(0, Math.min(position.x, containerRect.width - tweetWidth)),
+          y: Math.max(0, Math.min(position.y, containerRect.height - tweetHeight))
+        }))
         
-        // Temporarily update position for capture
-        setTweetPosition(constrainedPosition)
+        // Temporarily update positions for capture
+        setTweetPositions(constrainedPositions)
         
         // Wait for position update to render
         await new Promise(resolve => setTimeout(resolve, 150))
@@ -258,8 +455,8 @@ export default function TweetChartAnchor() {
           useCORS: true,
         })
 
-        // Restore original position
-        setTweetPosition(originalPosition)
+        // Restore original positions
+        setTweetPositions(originalPositions)
 
         const link = document.createElement("a")
         link.download = `recharted.io-${apiChartData?.symbol?.replace("/", "-") || "roast"}-exposed.png`
@@ -271,24 +468,98 @@ export default function TweetChartAnchor() {
     }
   }
 
+  // Each generated chart goes to the gallery once it has drawn (thumbnail of the card as shown)
+  const saveToHistory = async () => {
+    if (!chartCardRef.current || !apiChartData) return
+    try {
+      const canvas = await html2canvas(chartCardRef.current, {
+        backgroundColor: "#ffffff",
+        scale: HISTORY_THUMBNAIL_SCALE,
+        useCORS: true,
+      })
+      await saveChartHistoryEntry({
+        id: createHistoryId(),
+        createdAt: new Date().toISOString(),
+        title: `${apiChartData.symbol} · ${tweets.map(tweet => tweet.handle).join(", ")}`,
+        thumbnail: canvas.toDataURL("image/jpeg", 0.8),
+        state: getEditorState(),
+        chartData: apiChartData,
+        tweets,
+        renderedWindow,
+      })
+      setHistory(await listChartHistory())
+    } catch (error) {
+      console.log(`⚠️ Couldn't save chart to history (non-blocking): ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  useEffect(() => {
+    if (!pendingHistorySave || !chartData) return
+    setPendingHistorySave(false)
+    setTimeout(() => void saveToHistory(), CHART_CAPTURE_DELAY_MS)
+  }, [pendingHistorySave, chartData])
+
+  useEffect(() => {
+    if (!pendingExport || !chartData) return
+    setPendingExport(false)
+    setTimeout(() => void handleDownload(), CHART_CAPTURE_DELAY_MS)
+  }, [pendingExport, chartData])
+
+  // Reopen a saved chart from its stored bars and tweets, without refetching
+  const openHistoryEntry = (entry: ChartHistoryEntry, state: PermalinkState = entry.state) => {
+    applyEditorState(state)
+    setSelectedPair(null)
+    setApiChartData(entry.chartData)
+    setFetchedTweets(entry.tweets)
+    setRenderedWindow(entry.renderedWindow)
+    setChartData(undefined)
+    setPendingHistorySave(false)
+    setGenerationId(prev => prev + 1)
+    setIsGenerated(true)
+  }
+
+  const handleExportHistoryEntry = (entry: ChartHistoryEntry) => {
+    openHistoryEntry(entry)
+    setPendingExport(true)
+  }
+
+  const handleDuplicateHistoryEntry = async (entry: ChartHistoryEntry) => {
+    try {
+      await saveChartHistoryEntry({ ...entry, id: createHistoryId(), createdAt: new Date().toISOString(), title: `${entry.title} (copy)` })
+      setHistory(await listChartHistory())
+    } catch (error) {
+      console.error("Error duplicating chart:", error)
+    }
+  }
+
+  const handleDeleteHistoryEntry = async (entry: ChartHistoryEntry) => {
+    try {
+      await deleteChartHistoryEntry(entry.id)
+      setHistory(await listChartHistory())
+    } catch (error) {
+      console.error("Error deleting chart:", error)
+    }
+  }
+
   const handleCopyToClipboard = async () => {
+    if (!canExportChart()) return
     if (chartCardRef.current && chartContainerRef.current) {
       try {
-        // Temporarily constrain tweet position within bounds for capture
-        const originalPosition = tweetPosition
+        // Temporarily constrain tweet positions within bounds for capture
+        const originalPositions = tweetPositions
         const containerRect = chartContainerRef.current.getBoundingClientRect()
         const isMobile = window.innerWidth < 768
         const tweetWidth = isMobile ? 128 : 288
         const tweetHeight = isMobile ? 80 : 120
         
-        // Ensure tweet is fully within container bounds
-        const constrainedPosition = {
-          x: Math.max(0, Math.min(originalPosition.x, containerRect.width - tweetWidth)),
-          y: Math.max(0, Math.min(originalPosition.y, containerRect.height - tweetHeight))
-        }
+        // Ensure every tweet is fully within container bounds
+        const constrainedPositions = originalPositions.map(position => ({
+          x: Math.max(0, Math.min(position.x, containerRect.width - tweetWidth)),
+          y: Math.max(0, Math.min(position.y, containerRect.height - tweetHeight))
+        }))
         
-        // Temporarily update position for capture
-        setTweetPosition(constrainedPosition)
+        // Temporarily update positions for capture
+        setTweetPositions(constrainedPositions)
         
         // Wait for position update to render
         await new Promise(resolve => setTimeout(resolve, 150))
@@ -299,8 +570,8 @@ export default function TweetChartAnchor() {
           useCORS: true,
         })
 
-        // Restore original position
-        setTweetPosition(originalPosition)
+        // Restore original positions
+        setTweetPositions(originalPositions)
 
         // Convert canvas to blob
         canvas.toBlob(async (blob) => {
@@ -341,12 +612,14 @@ export default function TweetChartAnchor() {
     }
   }
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true)
+  const handleMouseDown = (index: number) => {
+    setDraggingIndex(index)
+    // Bring the grabbed tweet to the front
+    setTweetOrder(prev => [...prev.filter(i => i !== index), index])
   }
 
   const handleMouseMove = (e: React.MouseEvent | TouchEvent) => {
-    if (isDragging && chartContainerRef.current) {
+    if (draggingIndex !== null && chartContainerRef.current) {
       const rect = chartContainerRef.current.getBoundingClientRect()
       const isMobile = window.innerWidth < 768
       const offsetX = isMobile ? 64 : 144 // Mobile: 128px/2, Desktop: 288px/2
@@ -373,12 +646,12 @@ export default function TweetChartAnchor() {
       x = Math.max(0, Math.min(x, rect.width - tweetWidth))
       y = Math.max(0, Math.min(y, rect.height - tweetHeight))
       
-      setTweetPosition({ x, y })
+      setTweetPositions(prev => prev.map((position, index) => index === draggingIndex ? { x, y } : position))
     }
   }
 
   const handleMouseUp = () => {
-    setIsDragging(false)
+    setDraggingIndex(null)
   }
 
   const handleTouchMove = (e: React.TouchEvent) => {
@@ -387,7 +660,7 @@ export default function TweetChartAnchor() {
   }
 
   const handleTouchEnd = () => {
-    setIsDragging(false)
+    setDraggingIndex(null)
   }
 
   return (
@@ -417,15 +690,39 @@ export default function TweetChartAnchor() {
               <CardContent className="p-4 md:p-6 space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="tweetUrl" className="font-bold text-base md:text-lg">
-                    Tweet URL
+                    Tweet URL{tweetUrls.length > 1 ? "s" : ""}
                   </Label>
-                  <Input
-                    id="tweetUrl"
-                    value={tweetUrl}
-                    onChange={(e) => setTweetUrl(e.target.value)}
-                    className="border-2 border-black font-bold text-base md:text-lg"
-                    placeholder="https://twitter.com/username/status/..."
-                  />
+                  {tweetUrls.map((url, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input
+                        id={index === 0 ? "tweetUrl" : `tweetUrl-${index}`}
+                        value={url}
+                        onChange={(e) => setTweetUrls(prev => prev.map((value, i) => i === index ? e.target.value : value))}
+                        className="border-2 border-black font-bold text-base md:text-lg"
+                        placeholder="https://twitter.com/username/status/..."
+                      />
+                      {tweetUrls.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => setTweetUrls(prev => prev.filter((_, i) => i !== index))}
+                          className="border-2 border-black px-3"
+                          aria-label={`Remove tweet ${index + 1}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setTweetUrls(prev => [...prev, ""])}
+                    className="w-full border-2 border-black font-bold"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    ADD TWEET
+                  </Button>
                 </div>
 
                 <div className="space-y-2">
@@ -437,7 +734,7 @@ export default function TweetChartAnchor() {
                       <SelectValue placeholder="Pick from our listed coins" />
                     </SelectTrigger>
                     <SelectContent>
-                      {POPULAR_TOKENS.map((token) => (
+                      {HOTLIST_TOKENS.map((token) => (
                         <SelectItem key={token.address} value={token.address}>
                           <div className="flex items-center gap-2">
                             <span className="font-bold">${token.symbol}</span>
@@ -456,13 +753,14 @@ export default function TweetChartAnchor() {
 
                 <div className="space-y-2">
                   <Label htmlFor="chartUrl" className="font-bold text-base md:text-lg">
-                    Token Address
+                    Token Address or Ticker
                   </Label>
-                  <Input
+                  <TokenSearch
                     id="chartUrl"
                     value={selectedToken ? "" : chartUrl}
-                    onChange={(e) => {
-                      setChartUrl(e.target.value)
+                    onSelect={handleSearchSelect}
+                    onChange={(value) => {
+                      setChartUrl(value)
                       // Clear selected token when manually typing
                       if (selectedToken) {
                         setSelectedToken("")
@@ -477,12 +775,54 @@ export default function TweetChartAnchor() {
                     className={`border-2 border-black font-bold text-base md:text-lg ${
                       selectedToken ? 'bg-gray-100 text-gray-500' : ''
                     }`}
-                    placeholder="BbbwE8rudhjK4husSRc37X..."
+                    placeholder="Search $TICKER or paste BbbwE8rudhjK4..."
                   />
                 </div>
 
 
 
+                {tokenPairs.input === chartUrl && tokenPairs.pairs.length > 1 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="tradingPair" className="font-bold text-base md:text-lg">
+                      Trading Pair
+                    </Label>
+                    <select
+                      id="tradingPair"
+                      value={selectedPair?.pairAddress || "auto"}
+                      onChange={async (e) => {
+                        const pair = tokenPairs.pairs.find(p => p.pairAddress === e.target.value) || null
+                        setSelectedPair(pair)
+                        if (hasTweetUrl) {
+                          console.log(`🔄 Regenerating chart with pair: ${pair ? `${pair.baseSymbol}/${pair.quoteSymbol} on ${pair.dexId}` : "auto"}`)
+                          await generateChart(chartUrl, pair)
+                        }
+                      }}
+                      className="w-full border-2 border-black font-bold text-sm md:text-base p-3 bg-white"
+                    >
+                      <option value="auto">Auto (most liquid pool)</option>
+                      {tokenPairs.pairs.map((pair) => (
+                        <option key={pair.pairAddress} value={pair.pairAddress}>
+                          {pair.baseSymbol}/{pair.quoteSymbol} • {pair.dexId} • {formatUsdCompact(pair.liquidityUsd)} liq
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="compareTokens" className="font-bold text-base md:text-lg">
+                    Compare With
+                  </Label>
+                  <Input
+                    id="compareTokens"
+                    value={compareTokens}
+                    onChange={(e) => setCompareTokens(e.target.value)}
+                    className="border-2 border-black font-bold text-base md:text-lg"
+                    placeholder="Other token addresses, comma separated"
+                  />
+                  <p className="text-xs font-medium text-gray-600">Every token is shown as % return since the tweet.</p>
+                </div>
+
                 <div className="space-y-2">
                               <Label htmlFor="timeframe" className="font-bold text-base md:text-lg">
               Chart Interval
@@ -493,24 +833,125 @@ export default function TweetChartAnchor() {
                     onChange={async (e) => {
                       const newTimeframe = e.target.value
                       setTimeframe(newTimeframe)
+                      // Windows are per interval - back to the new interval's default (tweet-to-now is kept)
+                      const newWindow = chartWindow?.toNow ? chartWindow : null
+                      setChartWindow(newWindow)
                       // Auto-generate when timeframe changes if chart is already generated
-                      if (isGenerated && chartUrl && tweetUrl) {
+                      if (isGenerated && chartUrl && hasTweetUrl) {
                         console.log(`🔄 Auto-generating chart for new interval: ${newTimeframe}`)
-                        await generateChart()
+                        await generateChart(undefined, undefined, { timeframe: newTimeframe, chartWindow: newWindow })
                       }
                     }}
                     className="w-full border-2 border-black font-bold text-base md:text-lg p-3 bg-white"
                   >
-                    <option value="5m">5 Minutes</option>
-                    <option value="15m">15 Minutes</option>
-                    <option value="1h">1 Hour</option>
-                    <option value="4h">4 Hours</option>
-                    <option value="6h">6 Hours</option>
-                    <option value="1d">1 Day</option>
-                    <option value="1w">1 Week</option>
-                    <option value="1m">1 Month</option>
+                    {TIMEFRAMES.map((tf) => (
+                      <option key={tf.value} value={tf.value}>{tf.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <ChartWindowPicker
+                  key={timeframe}
+                  timeframe={timeframe}
+                  value={chartWindow}
+                  onChange={async (newWindow) => {
+                    setChartWindow(newWindow)
+                    if (isGenerated && chartUrl && hasTweetUrl) {
+                      await generateChart(undefined, undefined, { timeframe, chartWindow: newWindow })
+                    }
+                  }}
+                  onCustomChange={setChartWindow}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="axisMode" className="font-bold text-base md:text-lg">
+                    Y-Axis
+                  </Label>
+                  <select
+                    id="axisMode"
+                    value={effectiveAxisMode}
+                    onChange={(e) => setAxisMode(e.target.value as AxisMode)}
+                    className="w-full border-2 border-black font-bold text-base md:text-lg p-3 bg-white"
+                  >
+                    {AXIS_MODES.map((mode) => (
+                      <option key={mode.value} value={mode.value}>
+                        {mode.label}{mode.value === "fdv" && apiChartData && !apiChartData.totalSupply ? " - total supply unknown, shows market cap" : ""}
+                      </option>
+                    ))}
                   </select>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="quote" className="font-bold text-base md:text-lg">
+                    Denominate In
+                  </Label>
+                  <select
+                    id="quote"
+                    value={quote}
+                    onChange={(e) => setQuote(e.target.value as QuoteDenomination)}
+                    className="w-full border-2 border-black font-bold text-base md:text-lg p-3 bg-white"
+                  >
+                    {QUOTE_DENOMINATIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="chartStyle" className="font-bold text-base md:text-lg">
+                    Chart Style
+                  </Label>
+                  <select
+                    id="chartStyle"
+                    value={chartStyle}
+                    onChange={(e) => setChartStyle(e.target.value as ChartStyle)}
+                    className="w-full border-2 border-black font-bold text-base md:text-lg p-3 bg-white"
+                  >
+                    <option value="line">Line</option>
+                    <option value="candlestick">Candlesticks</option>
+                  </select>
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="logScale"
+                    checked={logScale}
+                    onCheckedChange={(checked) => setLogScale(checked === true)}
+                    className="mt-1 border-2 border-black"
+                  />
+                  <Label htmlFor="logScale" className="font-bold text-sm leading-snug">
+                    Log scale
+                    <span className="block font-medium text-xs text-gray-600">Keeps the moves before a big pump readable. Not used for token comparisons.</span>
+                  </Label>
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="showVolume"
+                    checked={showVolume}
+                    onCheckedChange={(checked) => setShowVolume(checked === true)}
+                    className="mt-1 border-2 border-black"
+                  />
+                  <Label htmlFor="showVolume" className="font-bold text-sm leading-snug">
+                    Volume pane
+                    <span className="block font-medium text-xs text-gray-600">Volume bars under the chart. The bar each tweet landed in is highlighted.</span>
+                  </Label>
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="allowIllustrative"
+                    checked={allowIllustrative}
+                    onCheckedChange={(checked) => setAllowIllustrative(checked === true)}
+                    className="mt-1 border-2 border-black"
+                  />
+                  <Label htmlFor="allowIllustrative" className="font-bold text-sm leading-snug">
+                    Allow illustrative chart
+                    <span className="block font-medium text-xs text-gray-600">Use generated history when no real price data exists. The chart is labelled as illustrative.</span>
+                  </Label>
+                </div>
               </CardContent>
             </Card>
 
@@ -542,14 +983,25 @@ export default function TweetChartAnchor() {
                     <Download className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
                     DOWNLOAD
                   </Button>
+
+                  <Button
+                    onClick={handleCopyLink}
+                    className="flex-1 bg-yellow-400 text-black border-4 border-black hover:bg-yellow-500 font-black text-sm sm:text-base md:text-lg py-3 sm:py-4 md:py-6 shadow-[2px_2px_0px_0px_#000000] md:shadow-[4px_4px_0px_0px_#000000] hover:shadow-[1px_1px_0px_0px_#000000] md:hover:shadow-[2px_2px_0px_0px_#000000] transition-all min-h-[48px] sm:min-h-[52px]"
+                  >
+                    <Link2 className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                    <span className="hidden sm:inline">COPY LINK</span>
+                    <span className="sm:hidden">LINK</span>
+                  </Button>
                 </>
               )}
             </div>
+
+            <BatchExport axisMode={axisMode} quote={quote} allowIllustrative={allowIllustrative} />
           </div>
 
           {/* Right Panel - Chart Display */}
           <div className="flex-1 relative min-h-[350px] sm:min-h-[400px] md:min-h-[500px] lg:min-h-[600px] order-2">
-            <Card ref={chartCardRef} className="border-4 border-black shadow-[4px_4px_0px_0px_#000000] md:shadow-[8px_8px_0px_0px_#000000] h-full rounded-none" style={{backgroundColor: '#000000'}}>
+            <Card ref={chartCardRef} className="border-4 border-black shadow-[4px_4px_0px_0px_#000000] md:shadow-[8px_8px_0px_0px_#000000] h-full rounded-none flex flex-col" style={{backgroundColor: '#000000'}}>
               <CardHeader className="bg-black text-white relative p-3 sm:p-4 md:p-6">
                 <CardTitle className="font-black text-lg sm:text-xl md:text-2xl lg:text-4xl">RECHARTED.IO</CardTitle>
                 {apiChartData?.symbol && (
@@ -558,7 +1010,7 @@ export default function TweetChartAnchor() {
                   </div>
                 )}
               </CardHeader>
-              <CardContent className="p-0 h-[calc(100%-60px)] sm:h-[calc(100%-72px)] md:h-[calc(100%-80px)] lg:h-[calc(100%-100px)]" style={{backgroundColor: '#000000'}}>
+              <CardContent className="p-0 flex-1 min-h-0" style={{backgroundColor: '#000000'}}>
                 {isGenerated ? (
                   <div
                     ref={chartContainerRef}
@@ -574,20 +1026,36 @@ export default function TweetChartAnchor() {
                       tokenPair={apiChartData?.symbol || "Loading..."}
                       chartData={apiChartData}
                       timeframe={timeframe}
-                      tweetTimestamp={tweetData.timestamp}
+                      tweetTimestamp={anchorTweet.timestamp}
+                      chartWindow={renderedWindow}
+                      highlightCall={!!renderedWindow?.toNow}
+                      comparisons={apiChartData?.comparisons}
                       onChartReady={handleChartReady}
-                      isPopularToken={apiChartData?.isPopularToken || POPULAR_TOKENS.find(token => token.address === selectedToken)?.showPrice || false}
-                    />
-                    <TweetOverlay
-                      tweetData={tweetData}
-                      position={tweetPosition}
-                      tradeTime={tweetData.timestamp}
-                      chartContainerRef={chartContainerRef}
-                      chartData={chartData}
-                      onMouseDown={handleMouseDown}
-                      isDragging={isDragging}
-                      timeframe={timeframe}
+                      axisMode={effectiveAxisMode}
+                      logScale={logScale}
+                      showVolume={showVolume}
+                      tweetTimestamps={tweets.map(tweet => tweet.timestamp)}
+                      chartStyle={chartStyle}
                     />
+                    {tweets.map((tweet, index) => (
+                      <TweetOverlay
+                        key={index}
+                        tweetData={tweet}
+                        position={tweetPositions[index] || defaultTweetPosition(index)}
+                        tradeTime={tweet.timestamp}
+                        chartContainerRef={chartContainerRef}
+                        chartData={chartData}
+                        onMouseDown={() => handleMouseDown(index)}
+                        isDragging={draggingIndex === index}
+                        timeframe={timeframe}
+                        layer={Math.max(0, tweetOrder.indexOf(index))}
+                      />
+                    ))}
+                    {(!apiChartData || apiChartData.isSynthetic) && (
+                      <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 pointer-events-none border-2 border-yellow-400 bg-black px-2 py-1 text-[10px] sm:text-xs font-black tracking-wider text-yellow-400 whitespace-nowrap">
+                        ILLUSTRATIVE • GENERATED DATA, NOT REAL PRICE HISTORY
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="flex items-center justify-center h-full bg-gray-100">
@@ -598,6 +1066,16 @@ export default function TweetChartAnchor() {
                   </div>
                 )}
               </CardContent>
+              {/* Performance since the call (tweet-to-now mode) - also part of the exported card */}
+              {isGenerated && renderedWindow?.toNow && apiChartData && (
+                <CallPerformance
+                  chartData={apiChartData}
+                  tweetTimestamp={anchorTweet.timestamp}
+                  axisMode={effectiveAxisMode}
+                />
+              )}
+              {/* Provenance footer - part of the card so it is captured by COPY / DOWNLOAD */}
+              {isGenerated && <DataProvenance chartData={apiChartData} axisMode={effectiveAxisMode} />}
             </Card>
           </div>
         </div>
@@ -609,13 +1087,21 @@ export default function TweetChartAnchor() {
             <div className="flex-1 text-center">
                                <p className="text-xs md:text-sm font-medium text-gray-700 leading-relaxed">
                    <Move className="w-3 h-3 md:w-4 md:h-4 inline mr-1" />
-                   Drag the tweet to the perfect roasting position!
+                   Drag the tweets to the perfect roasting position!
                    <span className="hidden sm:inline mx-2">•</span>
-                   The anchor shows exactly where their prediction landed at tweet time.
+                   Each anchor shows exactly where that prediction landed at tweet time.
                  </p>
             </div>
           </div>
         )}
+
+        <ChartHistoryGallery
+          entries={history}
+          onOpen={entry => openHistoryEntry(entry)}
+          onDuplicate={handleDuplicateHistoryEntry}
+          onExport={handleExportHistoryEntry}
+          onDelete={handleDeleteHistoryEntry}
+        />
       </div>
     </div>
   )
@@ -0,0 +1,47 @@
+import { ImageResponse } from 'next/og'
+import { renderChartImage } from '@/lib/chart-image'
+import { decodePermalinkState } from '@/lib/permalink'
+
+// Unfurl image for shared /r/<state> links: the chart with the tweet overlay for that state.
+// Rendered as a line chart (log scale and the illustrative opt-in carry over); a candlestick
+// style, comparison tokens and the volume pane only show once the link opens the editor.
+
+export const alt = 'Tweet anchored on the token chart'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+export default async function Image({ params }: { params: { id: string } }) {
+  const state = decodePermalinkState(params.id)
+
+  if (state) {
+    try {
+      return await renderChartImage(
+        {
+          tweetUrls: state.tweetUrls,
+          token: state.chartUrl,
+          timeframe: state.timeframe,
+          chartWindow: state.chartWindow || undefined,
+          axisMode: state.axisMode || undefined,
+          quote: state.quote,
+          positions: state.tweetPositions,
+          logScale: state.logScale,
+          allowIllustrative: state.allowIllustrative,
+          ...size,
+        }
+      )
+    } catch (error) {
+      console.error(`❌ Open Graph image for ${state.chartUrl} failed, using the branded card:`, error)
+    }
+  }
+
+  // Unreadable link or no bars: still unfurl as a branded card rather than nothing
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', width: '100%', height: '100%', backgroundColor: '#000000', color: '#ffffff' }}>
+        <div style={{ display: 'flex', fontSize: 96, fontWeight: 900 }}>RECHARTED.IO</div>
+        <div style={{ display: 'flex', fontSize: 36, fontWeight: 700, color: '#ffff00' }}>YOU ARE RECHARTED</div>
+      </div>
+    ),
+    size
+  )
+}
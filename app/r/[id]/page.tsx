@@ -0,0 +1,37 @@
+import type { Metadata } from 'next'
+import PermalinkRedirect from '@/components/permalink-redirect'
+import { decodePermalinkState, getEditorPath } from '@/lib/permalink'
+
+interface SharedChartPageProps {
+  params: Promise<{ id: string }> // Encoded editor state (lib/permalink.ts), base64url so never percent-encoded
+}
+
+// Handles of the tweeters, from their status URLs
+function getTweetHandles(tweetUrls: string[]): string[] {
+  return tweetUrls
+    .map(url => url.match(/(?:twitter\.com|x\.com)\/([^\/]+)\/status\//)?.[1])
+    .filter((handle): handle is string => !!handle)
+}
+
+export async function generateMetadata({ params }: SharedChartPageProps): Promise<Metadata> {
+  const { id } = await params
+  const state = decodePermalinkState(id)
+  const handles = state ? [...new Set(getTweetHandles(state.tweetUrls))] : []
+  const title = handles.length > 0
+    ? `${handles.map(handle => `@${handle}`).join(', ')} GOT RECHARTED`
+    : 'YOU ARE RECHARTED'
+  const description = 'The tweet, anchored on the token chart at the moment it was posted. See how the call aged.'
+
+  // The Open Graph image comes from opengraph-image.tsx next to this page
+  return {
+    title: `RECHARTED.IO | ${title}`,
+    description,
+    openGraph: { title, description, url: `/r/${id}`, siteName: 'RECHARTED.IO', type: 'website' },
+    twitter: { card: 'summary_large_image', title, description, creator: '@recharted_io' },
+  }
+}
+
+export default async function SharedChartPage({ params }: SharedChartPageProps) {
+  const { id } = await params
+  return <PermalinkRedirect editorPath={getEditorPath(id)} />
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FileArchive } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { MAX_BATCH_ROWS } from "@/lib/batch"
+import type { QuoteDenomination } from "@/lib/quote-currency"
+import type { AxisMode } from "@/lib/token-config"
+
+interface BatchExportProps {
+  axisMode: AxisMode | null // null = each token's default
+  quote: QuoteDenomination
+  allowIllustrative: boolean
+}
+
+/**
+ * Upload a CSV/JSON of calls and download every chart as a ZIP (see /api/batch).
+ * Uses the editor's y-axis, quote currency and illustrative opt-in for every row.
+ */
+export default function BatchExport({ axisMode, quote, allowIllustrative }: BatchExportProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const runBatch = async (file: File) => {
+    setIsRunning(true)
+    try {
+      const params = new URLSearchParams()
+      if (axisMode) params.set("axis", axisMode)
+      if (quote !== "USD") params.set("quote", quote)
+      if (allowIllustrative) params.set("illustrative", "1")
+
+      const response = await fetch(`/api/batch?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": file.name.toLowerCase().endsWith(".json") ? "application/json" : "text/csv" },
+        body: await file.text(),
+      })
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || `Batch failed (${response.status})`)
+      }
+
+      const link = document.createElement("a")
+      link.download = "recharted-batch.zip"
+      link.href = URL.createObjectURL(await response.blob())
+      link.click()
+      URL.revokeObjectURL(link.href)
+
+      const failed = Number(response.headers.get("X-Batch-Failed") || 0)
+      const illustrative = Number(response.headers.get("X-Batch-Illustrative") || 0)
+      const real = Number(response.headers.get("X-Batch-Real") || 0)
+      toast({
+        title: failed > 0 ? "Batch Finished With Failures" : "Batch Ready",
+        description: `${real} real chart${real === 1 ? "" : "s"}${illustrative ? `, ${illustrative} illustrative` : ""}${failed ? `, ${failed} failed` : ""}. See report.csv in the ZIP.`,
+        variant: failed > 0 ? "destructive" : "default",
+        duration: 6000,
+      })
+    } catch (error) {
+      console.error("Error running batch:", error)
+      toast({
+        title: "Batch Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+        duration: 6000,
+      })
+    } finally {
+      setIsRunning(false)
+      if (fileInputRef.current) fileInputRef.current.value = "" // Same file can be picked again
+    }
+  }
+
+  return (
+    <Card className="border-4 border-black shadow-[4px_4px_0px_0px_#000000] md:shadow-[8px_8px_0px_0px_#000000] rounded-none">
+      <CardHeader className="bg-black text-white p-4">
+        <CardTitle className="flex items-center gap-2 font-black text-lg">
+          <FileArchive className="w-5 h-5" />
+          BATCH
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <p className="text-xs font-medium text-gray-600 leading-snug">
+          CSV with a <code className="font-bold">tweet,token,timeframe,x,y</code> header (timeframe and position optional), or a JSON array of the same fields.
+          Up to {MAX_BATCH_ROWS} rows, downloaded as a ZIP of images with a report.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) void runBatch(file)
+          }}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning}
+          className="w-full bg-white text-black border-4 border-black hover:bg-gray-100 font-black py-4 shadow-[2px_2px_0px_0px_#000000] hover:shadow-[1px_1px_0px_0px_#000000] transition-all"
+        >
+          {isRunning ? "RENDERING..." : "UPLOAD CSV / JSON"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
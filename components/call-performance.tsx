@@ -0,0 +1,56 @@
+"use client"
+
+import type { ChartApiResponse } from "@/lib/api"
+import { computeCallPerformance } from "@/lib/call-performance"
+import type { AxisMode } from "@/lib/token-config"
+import { withQuoteUnit } from "@/lib/quote-currency"
+import { formatPercentChange, formatUsdCompact, formatUsdPrice } from "@/lib/utils"
+
+interface CallPerformanceProps {
+  chartData?: ChartApiResponse
+  tweetTimestamp: string
+  axisMode: AxisMode // Same units as the chart's y-axis: price, market cap or FDV
+}
+
+/**
+ * Performance strip for the tweet-to-now mode, rendered inside the chart card so it is part of
+ * every export: entry at the tweet, now, % change and the max drawdown since the call.
+ */
+export default function CallPerformance({ chartData, tweetTimestamp, axisMode }: CallPerformanceProps) {
+  if (!chartData?.prices.length) return null
+
+  // Closes describe where the price actually was; the spike-capturing highs overstate entries
+  const prices = chartData.closes?.length === chartData.prices.length ? chartData.closes : chartData.prices
+  // Market cap uses the supply at each bar when the supply timeline is available, FDV the total supply
+  const useFdv = axisMode === "fdv" && !!chartData.totalSupply
+  const supplyAt = (index: number) => useFdv ? chartData.totalSupply! : chartData.supplies?.[index] ?? chartData.tokenSupply ?? 0
+  const useMarketCap = axisMode !== "price" && prices.every((_, index) => supplyAt(index) > 0)
+  const values = useMarketCap ? prices.map((price, index) => price * supplyAt(index)) : prices
+
+  const performance = computeCallPerformance(chartData.timestamps, values, tweetTimestamp)
+  if (!performance) return null
+
+  const formatUsd = useMarketCap ? formatUsdCompact : formatUsdPrice
+  const formatValue = (value: number) => withQuoteUnit(formatUsd(value), chartData.quoteCurrency?.symbol)
+  const isUp = performance.changePercent >= 0
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 bg-black text-white border-t-2 border-white/20 px-3 py-2 font-mono text-xs sm:text-sm">
+      <span>
+        <span className="text-gray-400">{useMarketCap ? (useFdv ? "FDV AT CALL" : "MCAP AT CALL") : "ENTRY"}</span>{" "}
+        <span className="font-bold">{formatValue(performance.entryPrice)}</span>
+      </span>
+      <span>
+        <span className="text-gray-400">NOW</span>{" "}
+        <span className="font-bold">{formatValue(performance.currentPrice)}</span>
+      </span>
+      <span className={`font-black ${isUp ? "text-green-400" : "text-red-400"}`}>
+        {formatPercentChange(performance.changePercent)} SINCE CALL
+      </span>
+      <span>
+        <span className="text-gray-400">MAX DRAWDOWN</span>{" "}
+        <span className="font-bold text-red-400">{formatPercentChange(performance.maxDrawdownPercent)}</span>
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { Copy, Download, FolderOpen, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { ChartHistoryEntry } from "@/lib/chart-history"
+
+interface ChartHistoryGalleryProps {
+  entries: ChartHistoryEntry[] // Newest first
+  onOpen: (entry: ChartHistoryEntry) => void
+  onDuplicate: (entry: ChartHistoryEntry) => void
+  onExport: (entry: ChartHistoryEntry) => void
+  onDelete: (entry: ChartHistoryEntry) => void
+}
+
+/**
+ * Past recharts saved in this browser: reopen one in the editor (from its saved bars, no
+ * refetch), duplicate it, download it again or delete it.
+ */
+export default function ChartHistoryGallery({ entries, onOpen, onDuplicate, onExport, onDelete }: ChartHistoryGalleryProps) {
+  if (entries.length === 0) return null
+
+  return (
+    <div className="mt-6 md:mt-8 border-4 border-black shadow-[4px_4px_0px_0px_#000000] md:shadow-[8px_8px_0px_0px_#000000]">
+      <div className="bg-black text-white px-4 py-3 font-black text-lg md:text-xl">
+        YOUR RECHARTS <span className="text-sm font-bold text-gray-400">({entries.length}, saved in this browser)</span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 p-4">
+        {entries.map((entry) => (
+          <div key={entry.id} className="border-2 border-black bg-white flex flex-col">
+            <button type="button" onClick={() => onOpen(entry)} className="block bg-black" title="Open in the editor">
+              <img src={entry.thumbnail} alt={entry.title} className="w-full aspect-video object-cover" />
+            </button>
+            <div className="p-2 flex-1">
+              <div className="font-black text-sm truncate">{entry.title}</div>
+              <div className="text-xs text-gray-600">
+                {new Date(entry.createdAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+              </div>
+            </div>
+            <div className="grid grid-cols-4 border-t-2 border-black">
+              <Button variant="ghost" size="sm" onClick={() => onOpen(entry)} className="rounded-none font-bold" title="Open">
+                <FolderOpen className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onDuplicate(entry)} className="rounded-none font-bold" title="Duplicate">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onExport(entry)} className="rounded-none font-bold" title="Download again">
+                <Download className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onDelete(entry)} className="rounded-none font-bold text-red-600" title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
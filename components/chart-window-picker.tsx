@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatChartWindow, getTimeframeConfig, isSameChartWindow, TWEET_TO_NOW_WINDOW, type ChartWindow } from "@/lib/timeframes"
+
+interface ChartWindowPickerProps {
+  timeframe: string
+  value: ChartWindow | null // null = the interval's default window
+  onChange: (chartWindow: ChartWindow | null) => void // Preset picked (regenerate right away)
+  onCustomChange: (chartWindow: ChartWindow) => void // Custom hours edited (applied on the next generate)
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * "X before / Y after the tweet" control: presets for the current interval, custom hours,
+ * or tweet-to-now performance mode.
+ */
+export default function ChartWindowPicker({ timeframe, value, onChange, onCustomChange }: ChartWindowPickerProps) {
+  const presets = getTimeframeConfig(timeframe).presets
+  const presetIndex = value ? presets.findIndex(preset => isSameChartWindow(preset, value)) : 0
+  const [isCustom, setIsCustom] = useState(false)
+  const selected = value?.toNow ? "to-now" : isCustom || presetIndex < 0 ? "custom" : String(presetIndex)
+  const current = value && !value.toNow ? value : presets[0]
+
+  const updateCustom = (field: keyof ChartWindow, hours: string) => {
+    const ms = Math.max(0, parseFloat(hours) || 0) * HOUR_MS
+    onCustomChange({ ...current, [field]: ms })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="chartWindow" className="font-bold text-base md:text-lg">
+        Window Around Tweet
+      </Label>
+      <select
+        id="chartWindow"
+        value={selected}
+        onChange={(e) => {
+          if (e.target.value === "custom") {
+            setIsCustom(true)
+            if (value?.toNow) onCustomChange(current)
+            return
+          }
+          setIsCustom(false)
+          if (e.target.value === "to-now") {
+            onChange(TWEET_TO_NOW_WINDOW)
+            return
+          }
+          const index = Number(e.target.value)
+          onChange(index === 0 ? null : presets[index])
+        }}
+        className="w-full border-2 border-black font-bold text-base md:text-lg p-3 bg-white"
+      >
+        {presets.map((preset, index) => (
+          <option key={index} value={index}>
+            {formatChartWindow(preset)}{index === 0 ? " (default)" : ""}
+          </option>
+        ))}
+        <option value="custom">Custom...</option>
+        <option value="to-now">{formatChartWindow(TWEET_TO_NOW_WINDOW)}</option>
+      </select>
+
+      {selected === "custom" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="windowBefore" className="font-bold text-xs">Hours before</Label>
+            <Input
+              id="windowBefore"
+              type="number"
+              min={0}
+              step="any"
+              value={current.beforeMs / HOUR_MS}
+              onChange={(e) => updateCustom("beforeMs", e.target.value)}
+              className="border-2 border-black font-bold"
+            />
+          </div>
+          <div>
+            <Label htmlFor="windowAfter" className="font-bold text-xs">Hours after</Label>
+            <Input
+              id="windowAfter"
+              type="number"
+              min={0}
+              step="any"
+              value={current.afterMs / HOUR_MS}
+              onChange={(e) => updateCustom("afterMs", e.target.value)}
+              className="border-2 border-black font-bold"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
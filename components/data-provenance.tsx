@@ -0,0 +1,77 @@
+"use client"
+
+import type { ChartApiResponse } from "@/lib/api"
+import type { AxisMode } from "@/lib/token-config"
+
+interface DataProvenanceProps {
+  chartData?: ChartApiResponse
+  axisMode?: AxisMode // Historical supply only matters on the market cap axis
+}
+
+// Human readable names for ChartApiResponse.source values
+const SOURCE_LABELS: Record<string, string> = {
+  "codex": "Codex",
+  "codex-forced": "Codex (recent bars)",
+  "birdeye": "Birdeye",
+  "coingecko": "CoinGecko",
+  "dexscreener": "DexScreener",
+}
+
+// Format a Codex resolution (1, 15, 60, 240, 1D, 7D...) as a bar size label
+function formatResolution(resolution: string): string {
+  if (resolution.endsWith("S")) return `${parseInt(resolution)}s`
+  if (resolution.endsWith("D")) return resolution === "7D" ? "1W" : `${parseInt(resolution)}D`
+  const minutes = parseInt(resolution)
+  if (!minutes) return resolution
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`
+}
+
+// Generated series don't report a resolution, so derive the bar size from the timestamps
+function inferResolution(timestamps: string[]): string | null {
+  if (timestamps.length < 2) return null
+  const stepMinutes = Math.round((new Date(timestamps[1]).getTime() - new Date(timestamps[0]).getTime()) / 60000)
+  if (stepMinutes <= 0) return null
+  return stepMinutes % 1440 === 0 ? `${stepMinutes / 1440}D` : String(stepMinutes)
+}
+
+/**
+ * Provenance footer rendered inside the chart card, so every copied or downloaded
+ * image states where the bars came from, their resolution and whether they are real.
+ */
+export default function DataProvenance({ chartData, axisMode }: DataProvenanceProps) {
+  const source = chartData?.source
+  const sourceLabel = source ? SOURCE_LABELS[source] || source : "Unknown source"
+  const resolution = chartData?.resolution || (chartData ? inferResolution(chartData.timestamps) : null)
+  const isReal = !!chartData && !chartData.isSynthetic
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-x-3 gap-y-1 bg-black text-white border-t-2 border-white/20 px-3 py-1.5 font-mono text-[10px] sm:text-xs">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span>
+          <span className="text-gray-400">SOURCE</span> <span className="font-bold">{sourceLabel}</span>
+        </span>
+        {resolution && (
+          <span>
+            <span className="text-gray-400">BARS</span> <span className="font-bold">{formatResolution(resolution)}</span>
+          </span>
+        )}
+        {chartData?.pair && (
+          <span>
+            <span className="text-gray-400">POOL</span> <span className="font-bold">{chartData.pair.baseSymbol}/{chartData.pair.quoteSymbol} ({chartData.pair.dexId})</span>
+          </span>
+        )}
+        {chartData?.supplies && axisMode === "marketCap" && (
+          <span>
+            <span className="text-gray-400">MCAP</span> <span className="font-bold">HISTORICAL SUPPLY</span>
+          </span>
+        )}
+        {chartData?.historicalDataUnavailable && (
+          <span className="font-bold text-yellow-400">TWEET PREDATES HISTORY • SHOWING RECENT BARS</span>
+        )}
+      </div>
+      <span className={`font-black tracking-wider ${isReal ? "text-green-400" : "text-yellow-400"}`}>
+        {isReal ? "REAL PRICE HISTORY" : "GENERATED (ILLUSTRATIVE)"}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import { useEffect } from "react"
+
+interface PermalinkRedirectProps {
+  editorPath: string // Editor URL with the state in the hash
+}
+
+/**
+ * Sends people who open a shared /r/ link on to the editor. It runs in the browser, so link
+ * crawlers stay on the /r/ page and read its Open Graph image.
+ */
+export default function PermalinkRedirect({ editorPath }: PermalinkRedirectProps) {
+  useEffect(() => {
+    window.location.replace(editorPath)
+  }, [editorPath])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white p-6">
+      <a href={editorPath} className="font-black text-lg border-4 border-black px-6 py-4 shadow-[4px_4px_0px_0px_#000000]">
+        OPENING THE CHART...
+      </a>
+    </div>
+  )
+}
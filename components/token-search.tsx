@@ -0,0 +1,169 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useRef } from "react"
+import { Input } from "@/components/ui/input"
+import { searchCodexTokens, type CodexTokenSearchResult } from "@/lib/api"
+import { formatUsdCompact } from "@/lib/utils"
+
+interface TokenSearchProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  onSelect: (token: CodexTokenSearchResult) => void
+  onFocus?: () => void
+  className?: string
+  placeholder?: string
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// Only search for tickers/names - URLs, chain-qualified inputs and long addresses are charted as-is
+function isSearchPhrase(value: string): boolean {
+  const phrase = value.trim()
+  if (phrase.length < 2 || phrase.length > 30) return false
+  if (phrase.startsWith("http") || phrase.includes(":")) return false
+  return true
+}
+
+/**
+ * Token Address input with a typeahead backed by Codex token search.
+ * Results show symbol, name, chain, liquidity and logo so ticker clones are easy to tell apart.
+ */
+export default function TokenSearch({ id, value, onChange, onSelect, onFocus, className, placeholder }: TokenSearchProps) {
+  const [results, setResults] = useState<CodexTokenSearchResult[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSearching, setIsSearching] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+  const skipNextSearch = useRef(false)
+
+  useEffect(() => {
+    // Selecting a result updates the value - don't search for it again
+    if (skipNextSearch.current) {
+      skipNextSearch.current = false
+      return
+    }
+
+    if (!isSearchPhrase(value)) {
+      setResults([])
+      setIsOpen(false)
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const tokens = await searchCodexTokens(value.trim())
+        if (cancelled) return
+        setResults(tokens)
+        setHighlightedIndex(0)
+        setIsOpen(true)
+      } catch (error) {
+        console.log(`⚠️ Token search failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [value])
+
+  const selectToken = (token: CodexTokenSearchResult) => {
+    skipNextSearch.current = true
+    setIsOpen(false)
+    onSelect(token)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) return
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setHighlightedIndex(prev => (prev + 1) % results.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setHighlightedIndex(prev => (prev - 1 + results.length) % results.length)
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      selectToken(results[highlightedIndex])
+    } else if (e.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => {
+          onFocus?.()
+          if (results.length > 0) setIsOpen(true)
+        }}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={className}
+        placeholder={placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls={id ? `${id}-results` : undefined}
+      />
+      {isSearching && (
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-bold text-gray-500">...</span>
+      )}
+
+      {isOpen && (
+        <ul
+          id={id ? `${id}-results` : undefined}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-80 overflow-y-auto border-2 border-black bg-white shadow-[4px_4px_0px_0px_#000000]"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm font-medium text-gray-600">No tokens found</li>
+          ) : (
+            results.map((token, index) => (
+              <li
+                key={`${token.address}:${token.networkId}`}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                // mousedown fires before the input blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  selectToken(token)
+                }}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={`flex items-center gap-2 px-3 py-2 cursor-pointer border-b border-gray-200 last:border-b-0 ${
+                  index === highlightedIndex ? "bg-black text-white" : ""
+                }`}
+              >
+                {token.logo ? (
+                  <img src={token.logo} alt="" className="w-6 h-6 rounded-full flex-shrink-0" />
+                ) : (
+                  <div className="w-6 h-6 rounded-full flex-shrink-0 bg-gray-300" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1">
+                    <span className="font-black text-sm">${token.symbol}</span>
+                    <span className="text-xs uppercase opacity-70">{token.chain || `network ${token.networkId}`}</span>
+                  </div>
+                  <div className="text-xs truncate opacity-80">{token.name}</div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <div className="text-xs font-bold">{formatUsdCompact(token.liquidity)}</div>
+                  <div className="text-[10px] opacity-70">liquidity</div>
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,12 @@
 
 import { useEffect, useRef } from "react"
 import { Chart, registerables } from "chart.js"
+import { getChartWindowBounds, getSyntheticIntervalMs, type ChartWindow } from "@/lib/timeframes"
+import { computeCallPerformance } from "@/lib/call-performance"
+import { alignToTimestamps, rebaseToTweet, type ComparisonSeries } from "@/lib/comparison"
+import { DEFAULT_AXIS_MODE, type AxisMode } from "@/lib/token-config"
+import { withQuoteUnit, type QuoteCurrency } from "@/lib/quote-currency"
+import { formatPercentChange, formatUsdCompact } from "@/lib/utils"
 
 Chart.register(...registerables)
 
@@ -14,24 +20,53 @@ interface TradingChartProps {
     prices: number[]
     volumes: number[]
     timestamps: string[]
+    opens?: number[] // OHLC arrays for candlestick mode
+    highs?: number[]
+    lows?: number[]
+    closes?: number[]
     currentPrice: number
     priceChange24h: number
     source?: string // Track data source (codex, dexscreener, etc.)
     dataPoints?: number // Number of data points
     marketCap?: number // Market cap for scaling calculations
     tokenSupply?: number // Token supply for fallback calculations
+    totalSupply?: number // Fully diluted supply for the FDV axis
+    supplies?: number[] // Supply at each bar, for true historical market cap
+    marketCaps?: number[] // Market cap at each bar (price × supply at the time)
+    quoteCurrency?: QuoteCurrency // Prices are in this asset instead of USD
+    isSynthetic?: boolean // Generated (illustrative) bars
   }
   timeframe?: string
   tweetTimestamp?: string
-  isPopularToken?: boolean // Flag to show price instead of market cap
+  axisMode?: AxisMode // Price, market cap (default) or FDV on the y-axis
+  chartStyle?: ChartStyle // Line (default) or OHLC candlesticks
+  chartWindow?: ChartWindow // Time shown before/after the tweet, the interval default when not set
+  highlightCall?: boolean // Shade the move since the tweet and mark the entry (tweet-to-now mode)
+  comparisons?: ComparisonSeries[] // Other tokens: every series is plotted as % return since the tweet
+  logScale?: boolean // Logarithmic y-axis, so a 100x pump doesn't flatten everything before it
+  showVolume?: boolean // Volume pane under the price, coloured by up/down bar
+  tweetTimestamps?: string[] // Every anchored tweet, highlighted in the volume pane (defaults to tweetTimestamp)
 }
 
-export default function TradingChart({ tokenPair, onChartReady, chartData, timeframe = "1h", tweetTimestamp, isPopularToken = false }: TradingChartProps) {
+export type ChartStyle = "line" | "candlestick"
+
+// Line colours in comparison mode: the main token keeps its green, yellow is left for the tweet anchors
+const COMPARISON_COLORS = ["#00ff00", "#ff00ff", "#00bfff", "#ff8c00", "#ff3b30", "#ffffff"]
+
+// Volume pane colours; the bar a tweet landed in uses the anchor yellow
+const VOLUME_UP_COLOR = "rgba(0, 255, 0, 0.45)"
+const VOLUME_DOWN_COLOR = "rgba(255, 59, 48, 0.45)"
+const VOLUME_TWEET_COLOR = "#ffff00"
+
+export default function TradingChart({ tokenPair, onChartReady, chartData: chartDataProp, timeframe = "1h", tweetTimestamp, axisMode = DEFAULT_AXIS_MODE, chartStyle = "line", chartWindow, highlightCall = false, comparisons, logScale = false, showVolume = false, tweetTimestamps }: TradingChartProps) {
   const chartRef = useRef<HTMLCanvasElement>(null)
   const chartInstance = useRef<Chart | null>(null)
   const hasCalledReady = useRef(false)
 
   useEffect(() => {
+    // Local working copy: the supply scaling and window filtering below replace it. StrictMode runs this
+    // effect twice with the same props, so writing back into the prop would scale the bars twice.
+    let chartData = chartDataProp
     if (chartRef.current) {
       const ctx = chartRef.current.getContext("2d")
       if (ctx) {
@@ -50,39 +85,42 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
 
         console.log(`📊 Rendering chart for timeframe: ${timeframe} with tweet timestamp: ${tweetTimestamp}`)
 
-        // Use real chart data if available, otherwise fall back to mock data
-        const dataToUse = chartData ? convertApiDataToChartData(chartData) : generateMockCandlestickData(tweetTimestamp)
-        
-        // Helper function for timeframe calculations - MUCH more restrictive windows
-        const getTimeframeInMs = (tf: string): number => {
-          switch (tf) {
-            case "5m": return 4 * 60 * 60 * 1000      // 4 hours total for 5min candles
-            case "15m": return 12 * 60 * 60 * 1000    // 12 hours total for 15min candles  
-            case "1h": return 24 * 60 * 60 * 1000     // 24 hours total for 1h candles
-            case "4h": return 4 * 24 * 60 * 60 * 1000 // 4 days total for 4h candles
-            case "6h": return 5 * 24 * 60 * 60 * 1000 // 5 days total for 6h candles
-            case "1d": return 14 * 24 * 60 * 60 * 1000 // 14 days total for daily candles
-            case "1w": return 14 * 24 * 60 * 60 * 1000 // 14 days total for weekly candles (2 weeks centered)
-            case "1m": return 90 * 24 * 60 * 60 * 1000 // 90 days total for monthly candles (3 months: 2 before tweet + 1 current)
-            default: return 24 * 60 * 60 * 1000
-          }
+        // Candlesticks need real OHLC bars - fall back to the line when the source only has prices
+        const hasOhlc = !!(chartData?.opens?.length && chartData?.highs?.length && chartData?.lows?.length && chartData?.closes?.length)
+        // Comparison mode plots returns since the tweet, one line per token
+        const isComparison = !!(comparisons?.length && chartData && tweetTimestamp)
+        const showCandles = chartStyle === "candlestick" && hasOhlc && !isComparison
+        if (chartStyle === "candlestick" && !hasOhlc) {
+          console.warn(`⚠️ Candlestick mode requested but ${chartData?.source || 'this source'} has no OHLC data, drawing line instead`)
         }
-        
+
+        // With a per-bar supply, plot true historical market cap instead of price × today's supply
+        // (returns are compared on price, so comparison mode skips it)
+        const supplyHistory = axisMode !== "marketCap" || isComparison ? undefined : getSupplyHistory(chartData)
+        if (chartData && supplyHistory) {
+          chartData = scaleBySupply(chartData, supplyHistory)
+          console.log(`🪙 Plotting historical market cap from per-bar supply (${supplyHistory.length} bars)`)
+        }
+        const valuesAreMarketCap = !!supplyHistory
+
         // Calculate price range from the actual filtered timeframe data (not full dataset)
         let timeframeMinPrice: number | undefined = undefined
         let timeframeMaxPrice: number | undefined = undefined
         
         if (chartData?.prices && chartData?.timestamps && tweetTimestamp) {
           // Filter data to only include points within a reasonable window around the tweet
+          // Same window around the tweet as the requested data (lib/timeframes.ts)
           const tweetTime = new Date(tweetTimestamp).getTime()
-          const timeframeMs = getTimeframeInMs(timeframe)
-          const windowStart = tweetTime - (timeframeMs / 2)
-          const windowEnd = tweetTime + (timeframeMs / 2)
+          const { startMs: windowStart, endMs: windowEnd } = getChartWindowBounds(timeframe, tweetTime, chartWindow)
           
           // Filter ALL chart data to only include data within the display window
           const filteredPrices: number[] = []
           const filteredTimestamps: string[] = []
           const filteredVolumes: number[] = []
+          const filteredOpens: number[] = []
+          const filteredHighs: number[] = []
+          const filteredLows: number[] = []
+          const filteredCloses: number[] = []
           
           chartData.timestamps.forEach((timestamp, index) => {
             const dataTime = new Date(timestamp).getTime()
@@ -95,6 +133,12 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
               filteredPrices.push(price)
               filteredTimestamps.push(timestamp)
               filteredVolumes.push(volume)
+              if (hasOhlc) {
+                filteredOpens.push(chartData!.opens![index])
+                filteredHighs.push(chartData!.highs![index])
+                filteredLows.push(chartData!.lows![index])
+                filteredCloses.push(chartData!.closes![index])
+              }
             }
             
             // Debug: Log first few data points to see what's happening
@@ -112,11 +156,13 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
               ...chartData,
               prices: filteredPrices,
               timestamps: filteredTimestamps,
-              volumes: filteredVolumes
+              volumes: filteredVolumes,
+              ...(hasOhlc ? { opens: filteredOpens, highs: filteredHighs, lows: filteredLows, closes: filteredCloses } : {})
             }
             
-            timeframeMinPrice = Math.min(...filteredPrices)
-            timeframeMaxPrice = Math.max(...filteredPrices)
+            // Candle wicks extend past the plotted close, so scale to the full low/high range
+            timeframeMinPrice = Math.min(...(showCandles ? filteredLows : filteredPrices))
+            timeframeMaxPrice = Math.max(...(showCandles ? filteredHighs : filteredPrices))
             console.log(`📊 Price range (window filtered): $${timeframeMinPrice.toFixed(8)} to $${timeframeMaxPrice.toFixed(8)} (${((timeframeMaxPrice/timeframeMinPrice - 1) * 100).toFixed(1)}% range)`)
             console.log(`📊 Filtered data points: ${filteredPrices.length}`)
             console.log(`🔄 Replaced chartData with filtered data - Chart.js will now only display ${filteredPrices.length} points`)
@@ -131,7 +177,9 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
             console.log(`📊 Lowest 3 prices in filtered data: $${sortedPrices[0]?.toFixed(8)}, $${sortedPrices[1]?.toFixed(8)}, $${sortedPrices[2]?.toFixed(8)}`)
             
             // Use token supply for more accurate historical market cap calculation
-            if (chartData.tokenSupply) {
+            if (valuesAreMarketCap) {
+              console.log(`💰 Market cap range (window filtered, per-bar supply): $${timeframeMinPrice.toLocaleString()} to $${timeframeMaxPrice.toLocaleString()}`)
+            } else if (chartData.tokenSupply) {
               const minMarketCap = timeframeMinPrice * chartData.tokenSupply
               const maxMarketCap = timeframeMaxPrice * chartData.tokenSupply
               console.log(`💰 Market cap range (window filtered): $${minMarketCap.toLocaleString()} to $${maxMarketCap.toLocaleString()}`)
@@ -143,8 +191,8 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
           } else {
             // Fallback to original data if filtering results in no data
             // This happens when tweet timestamp is far outside the available data range
-            timeframeMinPrice = Math.min(...chartData.prices)
-            timeframeMaxPrice = Math.max(...chartData.prices)
+            timeframeMinPrice = Math.min(...(showCandles ? chartData.lows! : chartData.prices))
+            timeframeMaxPrice = Math.max(...(showCandles ? chartData.highs! : chartData.prices))
             console.warn(`⚠️ No data within time window (tweet too far from available data), using full dataset range`)
             console.log(`📊 Price range (fallback): $${timeframeMinPrice.toFixed(8)} to $${timeframeMaxPrice.toFixed(8)}`)
             console.log(`📊 Tweet time: ${new Date(tweetTime).toISOString()}, Data range: ${new Date(chartData.timestamps[0]).toISOString()} to ${new Date(chartData.timestamps[chartData.timestamps.length - 1]).toISOString()}`)
@@ -154,6 +202,159 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
           console.log(`🔍 Market cap data check: marketCap=${chartData.marketCap ? '$' + chartData.marketCap.toLocaleString() : 'undefined'}, currentPrice=${chartData.currentPrice ? '$' + chartData.currentPrice.toFixed(8) : 'undefined'}, tokenSupply=${chartData.tokenSupply ? chartData.tokenSupply.toLocaleString() : 'undefined'}`)
         }
 
+        // Use real chart data if available (filtered to the window above), otherwise fall back to mock data
+        // (comparison returns use closes where available, like the performance strip)
+        const dataToUse = chartData ? convertApiDataToChartData(chartData, showCandles || (isComparison && hasOhlc)) : generateMockCandlestickData(tweetTimestamp)
+
+        // Comparison mode: rebase the main token and every comparison token to 0% at the tweet,
+        // sampled on the main token's (window filtered) bars so all lines share the x-axis
+        const comparisonDatasets: any[] = []
+        let returnsRange: { min: number; max: number } | undefined
+        if (isComparison) {
+          const barTimestamps = chartData!.timestamps
+          const mainReturns = rebaseToTweet(barTimestamps, dataToUse.prices, tweetTimestamp!)
+          dataToUse.prices = mainReturns.map(value => value ?? 0)
+          dataToUse.timeData.forEach((point, index) => { point.price = dataToUse.prices[index] })
+
+          comparisons!.forEach((series, index) => {
+            const aligned = alignToTimestamps(barTimestamps, series.timestamps, series.prices)
+            comparisonDatasets.push({
+              // Comparisons are fetched in USD; say so when the main token is priced in another quote
+              label: chartData?.quoteCurrency ? `${series.symbol} (USD)` : series.symbol,
+              data: rebaseToTweet(barTimestamps, aligned, tweetTimestamp!),
+              borderColor: COMPARISON_COLORS[(index + 1) % COMPARISON_COLORS.length],
+              backgroundColor: COMPARISON_COLORS[(index + 1) % COMPARISON_COLORS.length],
+              borderWidth: window.innerWidth < 768 ? 2 : 3,
+              fill: false,
+              tension: 0.1,
+              pointRadius: 0,
+              pointHoverRadius: window.innerWidth < 768 ? 4 : 6,
+              spanGaps: false,
+            })
+          })
+
+          const allReturns = [dataToUse.prices, ...comparisonDatasets.map(dataset => dataset.data)]
+            .flat()
+            .filter((value): value is number => typeof value === "number" && isFinite(value))
+          const min = Math.min(0, ...allReturns)
+          const max = Math.max(0, ...allReturns)
+          const buffer = Math.max((max - min) * 0.05, 1)
+          returnsRange = { min: min - buffer, max: max + buffer }
+          console.log(`📊 Comparison mode: ${comparisons!.length + 1} tokens, returns ${formatPercentChange(min)} to ${formatPercentChange(max)}`)
+        }
+
+        // Y-axis tick and tweet anchor label format for the chosen axis mode
+        const formatUsdAxisValue = (value: number): string => {
+          // Price axis (the default for majors and spot assets)
+          if (axisMode === "price") {
+            const price = value
+            
+            // Price formatting
+            if (price >= 100000) {
+              return `$${(price / 1000).toFixed(1)}K`
+            } else if (price >= 10000) {
+              return `$${(price / 1000).toFixed(2)}K`
+            } else if (price >= 1000) {
+              return `$${price.toFixed(0)}`
+            } else if (price >= 100) {
+              return `$${price.toFixed(1)}`
+            } else if (price >= 10) {
+              return `$${price.toFixed(2)}`
+            } else if (price >= 1) {
+              return `$${price.toFixed(3)}`
+            } else if (price >= 0.01) {
+              return `$${price.toFixed(4)}`
+            } else {
+              return `$${price.toFixed(6)}`
+            }
+          }
+          
+          // Market cap or FDV axis
+          const realMarketCap = chartData?.marketCap
+          const tokenSupply = chartData?.tokenSupply
+          const currentPrice = chartData?.currentPrice
+          const totalSupply = chartData?.totalSupply
+          
+          // Debug: Log what data we have for market cap calculation
+          if (!valuesAreMarketCap && !realMarketCap && !tokenSupply) {
+            console.warn(`⚠️ Y-axis callback missing data: marketCap=${realMarketCap}, tokenSupply=${tokenSupply}, currentPrice=${currentPrice}, value=${value}`)
+          }
+          
+          let marketCap: number
+          
+          // Plotted values are already market caps when the supply timeline was applied
+          if (valuesAreMarketCap) {
+            marketCap = value
+          } else if (axisMode === "fdv" && totalSupply) {
+            // FDV: price × total supply (falls back to the market cap below when the total isn't known)
+            marketCap = value * totalSupply
+          } else if (tokenSupply) {
+            // Primary method: calculate from token supply (most reliable for historical spikes)
+            marketCap = value * tokenSupply
+            
+            // Debug: Log token supply calculation for high values
+            if (marketCap > 10000000) { // Log if calculated MC > $10M
+              console.log(`💰 HIGH Market Cap (token supply): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)}, supply: ${tokenSupply.toLocaleString()})`)
+            }
+          } else if (realMarketCap && currentPrice) {
+            // Fallback: Use real marketcap as baseline, scale proportionally with current price level
+            // Formula: realMarketCap * (currentPriceLevel / actualCurrentPrice)
+            marketCap = realMarketCap * (value / currentPrice)
+            
+            // Debug: Log the calculation for extreme values
+            if (marketCap > realMarketCap * 10) { // Log if calculated MC is >10x the baseline
+              console.log(`💰 HIGH Market Cap (scaled): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)}, baseline MC: $${realMarketCap.toLocaleString()}, current price: $${currentPrice.toFixed(8)})`)
+            }
+          } else {
+            // Last resort: assume 1B supply for display purposes
+            marketCap = value * 1000000000
+            
+            // Debug: Log fallback calculation for high values
+            if (marketCap > 10000000) { // Log if calculated MC > $10M
+              console.log(`💰 HIGH Market Cap (1B fallback): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)})`)
+            }
+          }
+          
+          // Enhanced formatting for extreme variance - more granular display
+          if (marketCap >= 1000000000000) {
+            // Trillion scale - for major cryptocurrencies like Bitcoin, Ethereum
+            return `$${(marketCap / 1000000000000).toFixed(2)}T`
+          } else if (marketCap >= 1000000000) {
+            return `$${(marketCap / 1000000000).toFixed(2)}B`
+          } else if (marketCap >= 100000000) {
+            // 100M+ - show one decimal
+            return `$${(marketCap / 1000000).toFixed(1)}M`
+          } else if (marketCap >= 10000000) {
+            // 10M+ - show one decimal
+            return `$${(marketCap / 1000000).toFixed(1)}M`
+          } else if (marketCap >= 1000000) {
+            // 1M+ - show two decimals for more precision
+            return `$${(marketCap / 1000000).toFixed(2)}M`
+          } else if (marketCap >= 100000) {
+            // 100K+ - show one decimal
+            return `$${(marketCap / 1000).toFixed(1)}K`
+          } else if (marketCap >= 10000) {
+            // 10K+ - show one decimal
+            return `$${(marketCap / 1000).toFixed(1)}K`
+          } else if (marketCap >= 1000) {
+            // 1K+ - show two decimals for precision
+            return `$${(marketCap / 1000).toFixed(2)}K`
+          } else if (marketCap >= 100) {
+            // $100+ - show whole dollars
+            return `$${marketCap.toFixed(0)}`
+          } else if (marketCap >= 1) {
+            // $1+ - show two decimals
+            return `$${marketCap.toFixed(2)}`
+          } else {
+            // Under $1 - show more decimals
+            return `$${marketCap.toFixed(4)}`
+          }
+        }
+
+        // Same scale in the quote currency ("1.2M SOL") when the bars aren't priced in USD
+        const quoteSymbol = chartData?.quoteCurrency?.symbol
+        const formatAxisValue = (value: number): string => withQuoteUnit(formatUsdAxisValue(value), quoteSymbol)
+
         // Prepare chart options
         const chartOptions: any = {
           responsive: true,
@@ -270,110 +471,12 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
                 maxTicksLimit: window.innerWidth < 768 ? 8 : 12,
                 stepSize: undefined, // Let Chart.js auto-calculate for optimal spacing
                 // Format as either price (for popular tokens) or market cap (for other tokens)
-                callback: function(value: any): string {
-                  // For popular tokens (Bitcoin, Ethereum, Solana), show price instead of market cap
-                  if (isPopularToken) {
-                    const price = value
-                    
-                    // Price formatting for popular tokens
-                    if (price >= 100000) {
-                      return `$${(price / 1000).toFixed(1)}K`
-                    } else if (price >= 10000) {
-                      return `$${(price / 1000).toFixed(2)}K`
-                    } else if (price >= 1000) {
-                      return `$${price.toFixed(0)}`
-                    } else if (price >= 100) {
-                      return `$${price.toFixed(1)}`
-                    } else if (price >= 10) {
-                      return `$${price.toFixed(2)}`
-                    } else if (price >= 1) {
-                      return `$${price.toFixed(3)}`
-                    } else if (price >= 0.01) {
-                      return `$${price.toFixed(4)}`
-                    } else {
-                      return `$${price.toFixed(6)}`
-                    }
-                  }
-                  
-                  // For other tokens, show market cap (existing logic)
-                  const realMarketCap = (chartData as any)?.marketCap
-                  const tokenSupply = (chartData as any)?.tokenSupply
-                  const currentPrice = (chartData as any)?.currentPrice
-                  
-                  // Debug: Log what data we have for market cap calculation
-                  if (!realMarketCap && !tokenSupply) {
-                    console.warn(`⚠️ Y-axis callback missing data: marketCap=${realMarketCap}, tokenSupply=${tokenSupply}, currentPrice=${currentPrice}, value=${value}`)
-                  }
-                  
-                  let marketCap: number
-                  
-                  // Prioritize token supply method for accurate historical market caps
-                  if (tokenSupply) {
-                    // Primary method: calculate from token supply (most reliable for historical spikes)
-                    marketCap = value * tokenSupply
-                    
-                    // Debug: Log token supply calculation for high values
-                    if (marketCap > 10000000) { // Log if calculated MC > $10M
-                      console.log(`💰 HIGH Market Cap (token supply): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)}, supply: ${tokenSupply.toLocaleString()})`)
-                    }
-                  } else if (realMarketCap && currentPrice) {
-                    // Fallback: Use real marketcap as baseline, scale proportionally with current price level
-                    // Formula: realMarketCap * (currentPriceLevel / actualCurrentPrice)
-                    marketCap = realMarketCap * (value / currentPrice)
-                    
-                    // Debug: Log the calculation for extreme values
-                    if (marketCap > realMarketCap * 10) { // Log if calculated MC is >10x the baseline
-                      console.log(`💰 HIGH Market Cap (scaled): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)}, baseline MC: $${realMarketCap.toLocaleString()}, current price: $${currentPrice.toFixed(8)})`)
-                    }
-                  } else {
-                    // Last resort: assume 1B supply for display purposes
-                    marketCap = value * 1000000000
-                    
-                    // Debug: Log fallback calculation for high values
-                    if (marketCap > 10000000) { // Log if calculated MC > $10M
-                      console.log(`💰 HIGH Market Cap (1B fallback): $${marketCap.toLocaleString()} (price: $${value.toFixed(8)})`)
-                    }
-                  }
-                  
-                  // Enhanced formatting for extreme variance - more granular display
-                  if (marketCap >= 1000000000000) {
-                    // Trillion scale - for major cryptocurrencies like Bitcoin, Ethereum
-                    return `$${(marketCap / 1000000000000).toFixed(2)}T`
-                  } else if (marketCap >= 1000000000) {
-                    return `$${(marketCap / 1000000000).toFixed(2)}B`
-                  } else if (marketCap >= 100000000) {
-                    // 100M+ - show one decimal
-                    return `$${(marketCap / 1000000).toFixed(1)}M`
-                  } else if (marketCap >= 10000000) {
-                    // 10M+ - show one decimal
-                    return `$${(marketCap / 1000000).toFixed(1)}M`
-                  } else if (marketCap >= 1000000) {
-                    // 1M+ - show two decimals for more precision
-                    return `$${(marketCap / 1000000).toFixed(2)}M`
-                  } else if (marketCap >= 100000) {
-                    // 100K+ - show one decimal
-                    return `$${(marketCap / 1000).toFixed(1)}K`
-                  } else if (marketCap >= 10000) {
-                    // 10K+ - show one decimal
-                    return `$${(marketCap / 1000).toFixed(1)}K`
-                  } else if (marketCap >= 1000) {
-                    // 1K+ - show two decimals for precision
-                    return `$${(marketCap / 1000).toFixed(2)}K`
-                  } else if (marketCap >= 100) {
-                    // $100+ - show whole dollars
-                    return `$${marketCap.toFixed(0)}`
-                  } else if (marketCap >= 1) {
-                    // $1+ - show two decimals
-                    return `$${marketCap.toFixed(2)}`
-                  } else {
-                    // Under $1 - show more decimals
-                    return `$${marketCap.toFixed(4)}`
-                  }
-                }
+                // Price, market cap or FDV depending on the axis mode
+                callback: (value: any): string => formatAxisValue(value)
               },
               title: {
                 display: true,
-                text: isPopularToken ? 'Price' : 'Market Cap',
+                text: `${axisMode === "price" ? 'Price' : axisMode === "fdv" ? 'FDV' : 'Market Cap'}${quoteSymbol ? ` (${quoteSymbol})` : ''}`,
                 color: '#ffffff',
                 font: {
                   size: 14,
@@ -390,6 +493,103 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
           animation: false,
         }
 
+        // Log scale (not for returns, which go negative): ticks still go through formatAxisValue,
+        // and the padding is multiplicative so it looks the same at both ends of the axis
+        if (logScale && !returnsRange) {
+          chartOptions.scales.y.type = "logarithmic"
+          if (timeframeMinPrice && timeframeMaxPrice) {
+            chartOptions.scales.y.min = timeframeMinPrice / 1.1
+            chartOptions.scales.y.max = timeframeMaxPrice * 1.1
+          }
+          console.log(`📊 Log scale y-axis: ${(timeframeMaxPrice && timeframeMinPrice ? timeframeMaxPrice / timeframeMinPrice : 0).toFixed(1)}x range in window`)
+        }
+
+        // Volume pane: a bar dataset on its own axis stacked under the price axis (4:1 height)
+        const volumeDatasets: any[] = []
+        // Generated bars come with made-up volumes, which would pass for real trading activity
+        const hasVolume = !chartData?.isSynthetic && dataToUse.volumes?.some((volume: number) => volume > 0)
+        if (showVolume && hasVolume) {
+          const barTimes = dataToUse.timeData.map(point => point.timestamp)
+          const tweetBars = new Set(
+            (tweetTimestamps?.length ? tweetTimestamps : tweetTimestamp ? [tweetTimestamp] : [])
+              .map(timestamp => findBarIndex(barTimes, new Date(timestamp).getTime()))
+              .filter(index => index >= 0)
+          )
+          const volumeColors = dataToUse.volumes.map((_: number, index: number) => {
+            if (tweetBars.has(index)) return VOLUME_TWEET_COLOR
+            const isUp = dataToUse.opens && dataToUse.closes
+              ? dataToUse.closes[index] >= dataToUse.opens[index]
+              : index === 0 || dataToUse.prices[index] >= dataToUse.prices[index - 1]
+            return isUp ? VOLUME_UP_COLOR : VOLUME_DOWN_COLOR
+          })
+          volumeDatasets.push({
+            type: "bar",
+            label: "Volume",
+            data: dataToUse.volumes,
+            yAxisID: "yVolume",
+            backgroundColor: volumeColors,
+            borderWidth: 0,
+            barPercentage: 1,
+            categoryPercentage: 0.9,
+          })
+
+          chartOptions.scales.y.stack = "panes"
+          chartOptions.scales.y.stackWeight = 4
+          chartOptions.scales.yVolume = {
+            type: "linear",
+            position: "right",
+            stack: "panes",
+            stackWeight: 1,
+            offset: true,
+            beginAtZero: true,
+            grid: { display: false },
+            ticks: {
+              color: "#888888",
+              font: { size: window.innerWidth < 768 ? 8 : 10, weight: "bold" },
+              maxTicksLimit: 2,
+              callback: (value: any): string => formatUsdCompact(Number(value)),
+            },
+          }
+          chartOptions.plugins.tooltip = {
+            ...chartOptions.plugins.tooltip,
+            callbacks: {
+              ...chartOptions.plugins.tooltip?.callbacks,
+              label: (context: any): string | undefined => {
+                if (context.dataset.yAxisID === "yVolume") return `Volume: ${formatUsdCompact(context.parsed.y)}`
+                return undefined // Default label (or the comparison label set below)
+              },
+            },
+          }
+          console.log(`📊 Volume pane: ${dataToUse.volumes.length} bars, tweet bar(s) at ${[...tweetBars].join(", ") || "none in window"}`)
+        } else if (showVolume) {
+          console.warn(`⚠️ Volume pane requested but ${chartData?.source || 'this source'} has no ${chartData?.isSynthetic ? 'real ' : ''}volume data`)
+        }
+
+        // Returns share one % axis, with a legend to tell the tokens apart
+        if (returnsRange) {
+          chartOptions.plugins.legend = {
+            display: true,
+            position: "top",
+            align: "start",
+            labels: {
+              color: "#ffffff",
+              boxWidth: 12,
+              font: { size: window.innerWidth < 768 ? 10 : 12, weight: "bold" },
+            },
+          }
+          chartOptions.plugins.tooltip = {
+            callbacks: {
+              label: (context: any): string => context.dataset.yAxisID === "yVolume"
+                ? `Volume: ${formatUsdCompact(context.parsed.y)}`
+                : `${context.dataset.label}: ${formatPercentChange(context.parsed.y)}`,
+            },
+          }
+          chartOptions.scales.y.min = returnsRange.min
+          chartOptions.scales.y.max = returnsRange.max
+          chartOptions.scales.y.ticks.callback = (value: any): string => formatPercentChange(Number(value))
+          chartOptions.scales.y.title.text = "Return since tweet"
+        }
+
         // Zoom functionality completely removed
 
         chartInstance.current = new Chart(ctx, {
@@ -398,9 +598,12 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
             labels: dataToUse.labels,
             datasets: [
               {
-                label: tokenPair,
+                label: isComparison
+                  ? `${tokenPair.split("/")[0]}${chartData?.quoteCurrency ? ` (${chartData.quoteCurrency.symbol})` : ""}`
+                  : tokenPair,
                 data: dataToUse.prices,
-                borderColor: "#00ff00",
+                // In candlestick mode the line is invisible but still drives tooltips and the tweet anchor
+                borderColor: showCandles ? "transparent" : "#00ff00",
                 backgroundColor: "rgba(0, 255, 0, 0.1)",
                 borderWidth: window.innerWidth < 768 ? 2 : 3,
                 fill: false,
@@ -408,6 +611,8 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
                 pointRadius: 0,
                 pointHoverRadius: window.innerWidth < 768 ? 4 : 6,
               },
+              ...comparisonDatasets,
+              ...volumeDatasets,
             ],
           },
           options: chartOptions,
@@ -421,6 +626,20 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
               ctx.fillRect(0, 0, chart.width, chart.height);
               ctx.restore();
             }
+          }, {
+            id: 'candlesticks',
+            afterDatasetsDraw: (chart: any) => {
+              if (!showCandles || !dataToUse.opens) return
+              drawCandlesticks(chart, dataToUse.opens, dataToUse.highs!, dataToUse.lows!, dataToUse.closes!)
+            }
+          }, {
+            id: 'callPerformance',
+            beforeDatasetsDraw: (chart: any) => {
+              if (!highlightCall || !tweetTimestamp || isComparison) return
+              const timestamps = dataToUse.timeData.map(point => new Date(point.timestamp).toISOString())
+              const performance = computeCallPerformance(timestamps, dataToUse.prices, tweetTimestamp)
+              if (performance) drawCallPerformance(chart, performance.entryIndex, performance.entryPrice, performance.changePercent >= 0)
+            }
           }]
         })
 
@@ -432,6 +651,8 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
             prices: dataToUse.prices,
             timeData: dataToUse.timeData,
             chartInstance: chartInstance.current,
+            chartStyle: showCandles ? "candlestick" : "line",
+            formatValue: returnsRange ? formatPercentChange : formatAxisValue,
           })
         }
       }
@@ -443,11 +664,12 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
         chartInstance.current = null
       }
     }
-  }, [tokenPair, timeframe, tweetTimestamp, chartData]) // Include all dependencies that should trigger re-render
+  }, [tokenPair, timeframe, tweetTimestamp, chartDataProp, chartStyle, chartWindow, highlightCall, comparisons, axisMode, logScale, showVolume, tweetTimestamps?.join(",")]) // Include all dependencies that should trigger re-render
 
-  const convertApiDataToChartData = (apiData: any) => {
+  const convertApiDataToChartData = (apiData: any, useCloses = false) => {
     const labels: string[] = []
-    const prices = apiData.prices
+    // Candles are anchored on their close; the line keeps using the spike-capturing high
+    const prices = useCloses ? apiData.closes : apiData.prices
     const volumes = apiData.volumes
     const timeData: Array<{ time: string; timestamp: number; price: number }> = []
 
@@ -526,21 +748,15 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
     })
 
     console.log(`Generated ${labels.length} labels, first few:`, labels.slice(0, 5))
-    return { labels, prices, volumes, timeData }
-  }
-
-  // Helper function for timeframe calculations - MUCH more restrictive windows
-  const getTimeframeInMsHelper = (tf: string): number => {
-    switch (tf) {
-      case "5m": return 4 * 60 * 60 * 1000      // 4 hours total for 5min candles
-      case "15m": return 12 * 60 * 60 * 1000    // 12 hours total for 15min candles  
-      case "1h": return 24 * 60 * 60 * 1000     // 24 hours total for 1h candles
-      case "4h": return 4 * 24 * 60 * 60 * 1000 // 4 days total for 4h candles
-      case "6h": return 5 * 24 * 60 * 60 * 1000 // 5 days total for 6h candles
-      case "1d": return 14 * 24 * 60 * 60 * 1000 // 14 days total for daily candles
-      case "1w": return 14 * 24 * 60 * 60 * 1000 // 14 days total for weekly candles (2 weeks centered)
-      case "1m": return 90 * 24 * 60 * 60 * 1000 // 90 days total for monthly candles (3 months: 2 before tweet + 1 current)
-      default: return 24 * 60 * 60 * 1000
+    return {
+      labels,
+      prices,
+      volumes,
+      timeData,
+      opens: apiData.opens as number[] | undefined,
+      highs: apiData.highs as number[] | undefined,
+      lows: apiData.lows as number[] | undefined,
+      closes: apiData.closes as number[] | undefined,
     }
   }
 
@@ -552,25 +768,6 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
 
     let currentPrice = 0.008
 
-    // Get interval based on timeframe
-    const getIntervalMs = (tf: string): number => {
-      switch (tf) {
-        case "5m": return 5 * 60 * 1000
-        case "15m": return 15 * 60 * 1000
-        case "1h": return 60 * 60 * 1000
-        case "4h": return 4 * 60 * 60 * 1000
-        case "6h": return 6 * 60 * 60 * 1000
-        case "1d": return 24 * 60 * 60 * 1000
-        case "1w": return 7 * 24 * 60 * 60 * 1000
-        case "1m": return 7 * 24 * 60 * 60 * 1000
-        default: return 60 * 60 * 1000
-      }
-    }
-
-
-
-    const intervalMs = getIntervalMs(timeframe)
-
     // Center around tweet time if provided
     let centerTime: Date
     if (tweetTimestamp) {
@@ -580,11 +777,11 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
       centerTime = new Date()
     }
 
-    // Calculate timeline to center the tweet in the middle of the visible timeframe
-    const timeframeMs = getTimeframeInMsHelper(timeframe)
-    const halfTimeframe = timeframeMs / 2
-    const startTime = new Date(centerTime.getTime() - halfTimeframe)
-    const endTime = new Date(centerTime.getTime() + halfTimeframe)
+    // Same window around the tweet as real data
+    const { startMs, endMs } = getChartWindowBounds(timeframe, centerTime.getTime(), chartWindow)
+    const startTime = new Date(startMs)
+    const endTime = new Date(endMs)
+    const intervalMs = getSyntheticIntervalMs(timeframe, chartWindow, endMs - startMs)
 
     console.log(`Mock chart timeline: ${startTime.toISOString()} to ${endTime.toISOString()}`)
 
@@ -642,7 +839,7 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
       volumes.push(Math.random() * 1000000)
     }
 
-    return { labels, prices, volumes, timeData }
+    return { labels, prices, volumes, timeData, opens: undefined, highs: undefined, lows: undefined, closes: undefined }
   }
 
   return (
@@ -657,3 +854,118 @@ export default function TradingChart({ tokenPair, onChartReady, chartData, timef
     </div>
   )
 }
+
+// Shade everything after the call green (up) or red (down) and draw a dashed entry line
+function drawCallPerformance(chart: any, entryIndex: number, entryValue: number, isUp: boolean) {
+  const point = chart.getDatasetMeta(0)?.data?.[entryIndex]
+  const chartArea = chart.chartArea
+  const yScale = chart.scales.y
+  if (!point || !chartArea) return
+
+  const ctx = chart.ctx
+  const entryY = yScale.getPixelForValue(entryValue)
+
+  // Shade the price pane only (the volume pane, when shown, sits below it)
+  ctx.save()
+  ctx.fillStyle = isUp ? "rgba(0, 255, 0, 0.08)" : "rgba(255, 59, 48, 0.1)"
+  ctx.fillRect(point.x, yScale.top, chartArea.right - point.x, yScale.bottom - yScale.top)
+
+  ctx.strokeStyle = "#ffffff"
+  ctx.lineWidth = 1
+  ctx.setLineDash([6, 4])
+  ctx.beginPath()
+  ctx.moveTo(point.x, entryY)
+  ctx.lineTo(chartArea.right, entryY)
+  ctx.stroke()
+
+  ctx.setLineDash([])
+  ctx.fillStyle = "#ffffff"
+  ctx.font = "bold 11px monospace"
+  ctx.textAlign = "right"
+  ctx.fillText("ENTRY", chartArea.right - 4, entryY - 4)
+  ctx.restore()
+}
+
+// Bar a timestamp falls in (last bar opened at or before it), -1 outside the bars
+function findBarIndex(barTimes: number[], time: number): number {
+  if (barTimes.length === 0 || isNaN(time) || time < barTimes[0]) return -1
+  const lastSpacing = barTimes.length > 1 ? barTimes[barTimes.length - 1] - barTimes[barTimes.length - 2] : 0
+  if (time > barTimes[barTimes.length - 1] + lastSpacing) return -1
+  let index = 0
+  while (index + 1 < barTimes.length && barTimes[index + 1] <= time) index++
+  return index
+}
+
+// Draw OHLC candles on top of the (invisible) close line, one candle per dataset point
+function drawCandlesticks(chart: any, opens: number[], highs: number[], lows: number[], closes: number[]) {
+  const meta = chart.getDatasetMeta(0)
+  const yScale = chart.scales.y
+  const chartArea = chart.chartArea
+  const points = meta?.data || []
+  if (points.length === 0) return
+
+  // Candle body width follows the spacing between bars
+  const spacing = points.length > 1 ? Math.abs(points[1].x - points[0].x) : chartArea.right - chartArea.left
+  const bodyWidth = Math.max(1, Math.min(spacing * 0.7, 16))
+
+  const ctx = chart.ctx
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(chartArea.left, chartArea.top, chartArea.right - chartArea.left, chartArea.bottom - chartArea.top)
+  ctx.clip()
+
+  points.forEach((point: any, index: number) => {
+    const open = opens[index]
+    const close = closes[index]
+    if (typeof open !== "number" || typeof close !== "number") return
+
+    const isUp = close >= open
+    const color = isUp ? "#00ff00" : "#ff3b30"
+    const yOpen = yScale.getPixelForValue(open)
+    const yClose = yScale.getPixelForValue(close)
+    const yHigh = yScale.getPixelForValue(highs[index] ?? Math.max(open, close))
+    const yLow = yScale.getPixelForValue(lows[index] ?? Math.min(open, close))
+
+    // Wick
+    ctx.strokeStyle = color
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(point.x, yHigh)
+    ctx.lineTo(point.x, yLow)
+    ctx.stroke()
+
+    // Body (at least 1px tall so doji candles stay visible)
+    ctx.fillStyle = color
+    const bodyTop = Math.min(yOpen, yClose)
+    const bodyHeight = Math.max(1, Math.abs(yClose - yOpen))
+    ctx.fillRect(point.x - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight)
+  })
+
+  ctx.restore()
+}
+
+type ChartSeries = NonNullable<TradingChartProps["chartData"]>
+
+// Supply at each bar: the explicit timeline, or derived from per-bar market caps
+function getSupplyHistory(chartData?: ChartSeries): number[] | undefined {
+  if (!chartData?.prices.length) return undefined
+  if (chartData.supplies?.length === chartData.prices.length) return chartData.supplies
+  if (chartData.marketCaps?.length === chartData.prices.length) {
+    return chartData.marketCaps.map((marketCap, index) => (chartData.prices[index] ? marketCap / chartData.prices[index] : 0))
+  }
+  return undefined
+}
+
+// Turn every price series into market cap using the supply at that bar
+function scaleBySupply(chartData: ChartSeries, supplies: number[]): ChartSeries {
+  const scale = (values?: number[]) => values?.map((value, index) => value * (supplies[index] || 0))
+  return {
+    ...chartData,
+    prices: scale(chartData.prices)!,
+    opens: scale(chartData.opens),
+    highs: scale(chartData.highs),
+    lows: scale(chartData.lows),
+    closes: scale(chartData.closes),
+    currentPrice: chartData.currentPrice * (supplies[supplies.length - 1] || 0),
+  }
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useId } from "react"
 
 // Import Libre Franklin font
 import { Libre_Franklin } from 'next/font/google'
@@ -30,6 +30,8 @@ interface ChartData {
   prices: number[]
   timeData: Array<{ time: string; timestamp: number; price: number }>
   chartInstance: any
+  chartStyle?: "line" | "candlestick"
+  formatValue?: (value: number) => string // The chart's y-axis format (price, market cap, FDV or % return)
 }
 
 interface TweetOverlayProps {
@@ -41,8 +43,12 @@ interface TweetOverlayProps {
   onMouseDown: (e: React.MouseEvent) => void
   isDragging: boolean
   timeframe?: string
+  layer?: number // Stacking order when several tweets share a chart (higher is on top)
 }
 
+// z-index range each tweet's anchor, arrow and card occupy, so one tweet stacks wholly above another
+const LAYER_Z_SPAN = 20
+
 export default function TweetOverlay({
   tweetData,
   position,
@@ -52,7 +58,10 @@ export default function TweetOverlay({
   onMouseDown,
   isDragging,
   timeframe,
+  layer = 0,
 }: TweetOverlayProps) {
+  const svgId = `tweet${useId().replace(/[^a-zA-Z0-9_-]/g, "")}` // Marker/filter ids must be unique per overlay on the page
+  const zBase = layer * LAYER_Z_SPAN
   const [arrowPath, setArrowPath] = useState("")
   const [anchorPoint, setAnchorPoint] = useState({ x: 0, y: 0 })
   const [isMobile, setIsMobile] = useState(false)
@@ -318,6 +327,16 @@ export default function TweetOverlay({
         
         // Get pixel positions for the bracketing points
         const metaData = chart.getDatasetMeta(0)
+
+        // Candles cover a whole interval: anchor on the candle the tweet falls into
+        // instead of interpolating between two candles
+        if (chartData.chartStyle === "candlestick" && metaData?.data?.[beforeIndex]) {
+          const candleIndex = tweetTimestamp === afterTime ? afterIndex : beforeIndex
+          const candlePoint = metaData.data[candleIndex]
+          console.log(`🕯️ Anchoring on candle ${candleIndex}: ${new Date(chartData.timeData[candleIndex].timestamp).toISOString()}`)
+          return { x: candlePoint.x + canvasOffsetX, y: candlePoint.y + canvasOffsetY }
+        }
+
         if (metaData?.data?.[beforeIndex] && metaData?.data?.[afterIndex]) {
           const beforePoint = metaData.data[beforeIndex]
           const afterPoint = metaData.data[afterIndex]
@@ -325,15 +344,19 @@ export default function TweetOverlay({
           // Interpolate X position based on time
           exactX = beforePoint.x + (afterPoint.x - beforePoint.x) * timeFactor
           
-          // Interpolate Y position based on price
-          const interpolatedPrice = beforePrice + (afterPrice - beforePrice) * timeFactor
+          // Interpolate Y position based on price. The line is straight in pixel space, so on a
+          // log axis the price between two points is geometric, not linear
           const yScale = chart.scales.y
+          const isLogScale = yScale.type === "logarithmic" && beforePrice > 0 && afterPrice > 0
+          const interpolatedPrice = isLogScale
+            ? beforePrice * Math.pow(afterPrice / beforePrice, timeFactor)
+            : beforePrice + (afterPrice - beforePrice) * timeFactor
           exactY = yScale.getPixelForValue(interpolatedPrice)
           
           console.log(`🎯 EXACT INTERPOLATION: Tweet at ${new Date(tweetTimestamp).toISOString()}`)
           console.log(`📍 Between points: ${new Date(beforeTime).toISOString()} and ${new Date(afterTime).toISOString()}`)
           console.log(`📊 Time factor: ${timeFactor.toFixed(4)} (0=before, 1=after)`)
-          console.log(`💰 Interpolated price: $${interpolatedPrice.toFixed(8)}`)
+          console.log(`💰 Interpolated price (${isLogScale ? 'geometric, log axis' : 'linear'}): $${interpolatedPrice.toFixed(8)}`)
           console.log(`📍 Exact position: (${exactX.toFixed(2)}, ${exactY.toFixed(2)})`)
           
           const adjustedX = exactX + canvasOffsetX
@@ -413,7 +436,9 @@ export default function TweetOverlay({
     new Date(storedTweetTime).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false }) :
     storedTweetTime
 
-  const priceAtStoredTime = chartData ? chartData.prices[findClosestTimeIndex(storedTweetTime, chartData)]?.toFixed(6) : "0.000000"
+  // Value at the tweet, in the same units as the y-axis
+  const valueAtStoredTime = chartData ? chartData.prices[findClosestTimeIndex(storedTweetTime, chartData)] : undefined
+  const anchorValueLabel = chartData?.formatValue && valueAtStoredTime !== undefined ? chartData.formatValue(valueAtStoredTime) : null
 
   return (
     <>
@@ -423,7 +448,7 @@ export default function TweetOverlay({
         style={{
           left: anchorPoint.x - anchorOffset,
           top: anchorPoint.y - anchorOffset,
-          zIndex: 15,
+          zIndex: zBase + 15,
           boxShadow: "0 0 10px rgba(255, 255, 0, 0.8)",
         }}
       />
@@ -434,29 +459,43 @@ export default function TweetOverlay({
         style={{
           left: anchorPoint.x - 0.5,
           top: anchorPoint.y - 12,
-          zIndex: 14,
+          zIndex: zBase + 14,
         }}
       />
 
+      {/* Value at the tweet, labelled like the y-axis */}
+      {anchorValueLabel && (
+        <div
+          className="absolute bg-black border border-yellow-400 px-1 text-[10px] sm:text-xs font-black text-yellow-400 whitespace-nowrap pointer-events-none -translate-x-1/2"
+          style={{
+            left: anchorPoint.x,
+            top: anchorPoint.y + anchorOffset + 4,
+            zIndex: zBase + 15,
+          }}
+        >
+          {anchorValueLabel}
+        </div>
+      )}
+
       {/* Debug: Small yellow dot at exact calculated position */}
       <div
         className="absolute w-1 h-1 bg-yellow-500 pointer-events-none"
         style={{
           left: anchorPoint.x - 0.5,
           top: anchorPoint.y - 0.5,
-          zIndex: 25,
+          zIndex: zBase + 25,
         }}
       />
 
 
 
       {/* Dynamic Arrow SVG */}
-      <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 10 }}>
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: zBase + 10 }}>
         <defs>
-          <marker id="arrowhead" markerWidth="12" markerHeight="8" refX="10" refY="4" orient="auto">
+          <marker id={`${svgId}-arrowhead`} markerWidth="12" markerHeight="8" refX="10" refY="4" orient="auto">
             <polygon points="0 0, 12 4, 0 8" fill="#ffff00" stroke="#000000" strokeWidth="1" />
           </marker>
-          <filter id="glow">
+          <filter id={`${svgId}-glow`}>
             <feGaussianBlur stdDeviation="2" result="coloredBlur" />
             <feMerge>
               <feMergeNode in="coloredBlur" />
@@ -469,8 +508,8 @@ export default function TweetOverlay({
           stroke="#ffff00"
           strokeWidth={isMobile ? "3" : "4"}
           fill="none"
-          markerEnd="url(#arrowhead)"
-          filter="url(#glow)"
+          markerEnd={`url(#${svgId}-arrowhead)`}
+          filter={`url(#${svgId}-glow)`}
           strokeDasharray={isDragging ? "10,5" : "none"}
         />
       </svg>
@@ -483,7 +522,7 @@ export default function TweetOverlay({
         style={{
           left: position.x,
           top: position.y,
-          zIndex: 20,
+          zIndex: zBase + 20,
         }}
         onMouseDown={onMouseDown}
         onTouchStart={isTouch ? (e) => {
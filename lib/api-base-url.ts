@@ -0,0 +1,19 @@
+// Base URL of the app's own API routes
+//
+// The fetchers in lib/api.ts call /api/* with relative URLs, which only resolve in the
+// browser. On the server (the /api/render image route, batches, Open Graph images) they
+// resolve against the configured app origin.
+
+// Public site, for absolute links and page metadata
+export const SITE_URL = 'https://recharted.io'
+
+// Origin server-side callers reach this app's /api routes on: APP_URL (e.g. http://localhost:3000
+// in development), else the public site. Never read from request headers, which clients control.
+export function getAppOrigin(): string {
+  return (process.env.APP_URL || SITE_URL).replace(/\/$/, '')
+}
+
+// Relative in the browser, absolute on the server
+export function apiUrl(path: string): string {
+  return typeof window === 'undefined' ? `${getAppOrigin()}${path}` : path
+}
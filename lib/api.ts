@@ -1,5 +1,22 @@
 // API utility functions for fetching tweet and chart data
 
+import {
+  fetchFromChartDataProviders,
+  registerChartDataProvider,
+  TweetBeforeDataError,
+  type ChartDataRequest,
+  type ProviderAttempt,
+} from './chart-providers'
+import type { BarCacheMetadata } from './bar-cache'
+import { apiUrl } from './api-base-url'
+import { getChainSlug, getCodexNetworks, resolveCodexNetworkId } from './codex-networks'
+import { parseChartLink, UnrecognisedChartLinkError } from './chart-links'
+import { rankDexScreenerPairs, selectDexScreenerPair, toPairSummary, type PairSummary } from './pair-selection'
+import { appendChartWindowParams, getChartWindowBounds, getSyntheticIntervalMs, type ChartWindow } from './timeframes'
+import type { ComparisonFailure, ComparisonSeries } from './comparison'
+import { DEFAULT_AXIS_MODE, getTokenConfig, SPOT_ASSET_AXIS_MODE, type AxisMode } from './token-config'
+import type { QuoteCurrency, QuoteDenomination } from './quote-currency'
+
 export interface TweetApiResponse {
   username: string
   handle: string
@@ -14,14 +31,30 @@ export interface ChartApiResponse {
   prices: number[]
   volumes: number[]
   timestamps: string[]
+  opens?: number[] // OHLC arrays (parallel to timestamps) when the provider returns real bars
+  highs?: number[]
+  lows?: number[]
+  closes?: number[]
   currentPrice: number
   priceChange24h: number
   marketCap?: number
   tokenSupply?: number
+  totalSupply?: number // Fully diluted supply, for the FDV axis
+  quoteCurrency?: QuoteCurrency // Asset prices are denominated in (USD when absent)
+  marketCaps?: number[] // Per-bar market cap history (parallel to timestamps) when the provider has it
+  supplies?: number[] // Per-bar token supply rebuilt from mint/burn events (Codex only)
   source?: string // Track data source (dexscreener, codex, etc.)
   dataPoints?: number // Number of data points returned
-  isPopularToken?: boolean // Whether this is a popular token (Bitcoin, Ethereum, Solana)
+  defaultAxisMode?: AxisMode // Axis the token is read on until the user picks one (token config, or price for spot assets)
   historicalDataUnavailable?: boolean // Flag to indicate this is current data, not historical
+  provider?: string // Id of the chart data provider that served the bars
+  providerAttempts?: ProviderAttempt[] // What happened to every provider (served, skipped, failed)
+  isSynthetic?: boolean // Bars were generated (illustrative), not real trades
+  resolution?: string // Bar size the provider served, in Codex notation (1, 15, 60, 1D...)
+  pair?: PairSummary // Pool the chart was built from (best ranked or chosen by the user)
+  cache?: BarCacheMetadata // Server-side bar cache hit/miss details (Codex only)
+  comparisons?: ComparisonSeries[] // Other tokens fetched for the comparison overlay (real bars only)
+  comparisonFailures?: ComparisonFailure[] // Comparison tokens that could not be charted
 }
 
 // Codex API interfaces
@@ -30,12 +63,23 @@ export interface CodexApiResponse {
   prices: number[]
   volumes: number[]
   timestamps: string[]
+  opens: number[]
+  highs: number[]
+  lows: number[]
+  closes: number[]
   currentPrice: number
   priceChange24h: number
   marketCap?: number
   tokenSupply?: number
+  totalSupply?: number
+  quoteCurrency?: QuoteCurrency // Set when the bars were re-denominated out of USD
+  supplies?: number[] // Supply at each bar, rebuilt from tokenLifecycleEvents
+  marketCaps?: number[] // Price × supply at each bar
   source: 'codex'
   dataPoints: number
+  resolution: string // Codex resolution the bars were served at
+  pair?: PairSummary // DexScreener pair used for market cap and supply
+  cache?: BarCacheMetadata
 }
 
 export interface CodexBarsInput {
@@ -52,6 +96,19 @@ export interface CodexBarsInput {
   symbolType?: 'TOKEN' | 'POOL'
 }
 
+// Token search result from /api/codex-search (Codex filterTokens, ranked by liquidity)
+export interface CodexTokenSearchResult {
+  address: string
+  symbol: string
+  name: string
+  networkId: number
+  chain?: string // Chain slug for the network (solana, base...), filled in client-side
+  liquidity: number
+  volume24: number
+  marketCap?: number
+  logo?: string
+}
+
 // CoinGecko API interfaces
 export interface CoinGeckoHistoricalResponse {
   prices: [number, number][] // [timestamp, price]
@@ -214,7 +271,21 @@ function getToken(id: string): string {
     .replace(/(0+|\.)/g, '');
 }
 
-export async function fetchTweetData(tweetUrl: string): Promise<TweetApiResponse> {
+/**
+ * Thrown by fetchTweetData in strict mode when the tweet can't be loaded. The editor shows a
+ * placeholder card instead; server-rendered images must not anchor a made-up tweet at "now".
+ */
+export class TweetUnavailableError extends Error {
+  constructor(tweetUrl: string, reason: string) {
+    super(`Tweet unavailable: ${tweetUrl} (${reason})`)
+    this.name = 'TweetUnavailableError'
+  }
+}
+
+// Placeholder text of tweets that couldn't be loaded (here and in /api/tweet)
+const UNAVAILABLE_TWEET_TEXT = 'Tweet content unavailable'
+
+export async function fetchTweetData(tweetUrl: string, options: { strict?: boolean } = {}): Promise<TweetApiResponse> {
   console.log(`Fetching tweet data from: ${tweetUrl}`)
 
   try {
@@ -228,21 +299,29 @@ export async function fetchTweetData(tweetUrl: string): Promise<TweetApiResponse
 
     // Try to fetch tweet data using our Next.js API route
     const encodedUrl = encodeURIComponent(tweetUrl)
-    const response = await fetch(`/api/tweet?id=${tweetId}&url=${encodedUrl}`)
+    const response = await fetch(apiUrl(`/api/tweet?id=${tweetId}&url=${encodedUrl}`))
     
     if (response.ok) {
       const data = await response.json()
       console.log("Tweet API response:", data)
       
+      if (options.strict && (!data.timestamp || !data.text || data.text.startsWith(UNAVAILABLE_TWEET_TEXT))) {
+        throw new TweetUnavailableError(tweetUrl, "no tweet content returned")
+      }
+      
       return {
         username: data.username || "unknown",
         handle: data.handle || "@unknown",
-        text: data.text || "Tweet content unavailable",
+        text: data.text || UNAVAILABLE_TWEET_TEXT,
         timestamp: data.timestamp || new Date().toISOString(),
         profileImage: data.profileImage || null,
       }
     }
 
+    if (options.strict) {
+      throw new TweetUnavailableError(tweetUrl, `tweet API returned ${response.status}`)
+    }
+
     // Fallback: Extract basic info from URL
     const urlMatch = tweetUrl.match(/(?:twitter\.com|x\.com)\/([^\/]+)\/status\/(\d+)/)
     if (urlMatch) {
@@ -252,7 +331,7 @@ export async function fetchTweetData(tweetUrl: string): Promise<TweetApiResponse
       return {
         username: username,
         handle: `@${username}`,
-        text: "Tweet content unavailable - API request failed",
+        text: `${UNAVAILABLE_TWEET_TEXT} - API request failed`,
         timestamp: new Date().toISOString(),
       }
     }
@@ -261,151 +340,131 @@ export async function fetchTweetData(tweetUrl: string): Promise<TweetApiResponse
   } catch (error) {
     console.error("Error fetching tweet data:", error)
     
+    if (options.strict) {
+      throw error instanceof TweetUnavailableError
+        ? error
+        : new TweetUnavailableError(tweetUrl, error instanceof Error ? error.message : "unknown error")
+    }
+    
     // Return fallback data
     return {
       username: "unknown",
       handle: "@unknown",
-      text: "Tweet content unavailable - please manually input the tweet text",
+      text: `${UNAVAILABLE_TWEET_TEXT} - please manually input the tweet text`,
       timestamp: new Date().toISOString(),
     }
   }
 }
 
-// Fallback function to get real data from a popular token
-async function getFallbackRealData(timeframe: string, tweetTimestamp?: string): Promise<ChartApiResponse> {
-  try {
-    // Use a popular token that's likely to have data (PEPE on Ethereum)
-    const fallbackAddress = "0x6982508145454ce325ddbe47a25d4ec3d2311933" // PEPE token
-    const apiUrl = `https://api.dexscreener.com/latest/dex/tokens/${fallbackAddress}`
-    console.log(`Trying fallback with PEPE token: ${apiUrl}`)
-    
-    const response = await fetch(apiUrl)
-    if (response.ok) {
-      const data: DexScreenerResponse = await response.json()
+// Look up the token on DexScreener and generate history from its current pair stats.
+// Throws when no pair is found so callers can decide how to fall back.
+async function fetchDexScreenerPairData(
+  chartUrl: string,
+  timeframe: string,
+  tweetTimestamp?: string,
+  pairAddress?: string,
+  chartWindow?: ChartWindow
+): Promise<ChartApiResponse> {
+  // Extract token info from DEX Screener URL
+  const tokenInfo = extractTokenFromUrl(chartUrl)
+  
+  if (!tokenInfo.address || !tokenInfo.chain) {
+    throw new UnrecognisedChartLinkError(chartUrl)
+  }
+
+  // Try multiple API endpoints for better compatibility
+  const apiEndpoints = [
+    `https://api.dexscreener.com/latest/dex/tokens/${tokenInfo.address}`,
+    `https://api.dexscreener.com/latest/dex/search?q=${tokenInfo.address}`,
+  ]
+
+  // Add chain-specific endpoints
+  if (tokenInfo.chain === "solana") {
+    apiEndpoints.push(`https://api.dexscreener.com/latest/dex/tokens/solana/${tokenInfo.address}`)
+  } else if (tokenInfo.chain === "ethereum") {
+    apiEndpoints.push(`https://api.dexscreener.com/latest/dex/tokens/ethereum/${tokenInfo.address}`)
+  }
+
+  let data: DexScreenerResponse | null = null
+
+  // Try each endpoint until one works
+  for (const endpoint of apiEndpoints) {
+    try {
+      console.log(`Trying API endpoint: ${endpoint}`)
+      const response = await fetch(endpoint)
       
-      if (data.pairs && data.pairs.length > 0) {
-        const pair = data.pairs[0]
-        const historicalData = generateHistoricalDataFromPair(pair, timeframe, tweetTimestamp)
+      if (response.ok) {
+        const responseData = await response.json()
+        console.log(`API response from ${endpoint}:`, responseData)
         
-        return {
-          symbol: `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`,
-          prices: historicalData.prices,
-          volumes: historicalData.volumes,
-          timestamps: historicalData.timestamps,
-          currentPrice: parseFloat(pair.priceUsd),
-          priceChange24h: pair.priceChange.h24,
-          marketCap: pair.fdv,
-          tokenSupply: pair.fdv / parseFloat(pair.priceUsd),
+        if (responseData.pairs && responseData.pairs.length > 0) {
+          data = responseData
+          break
         }
       }
+    } catch (error) {
+      console.log(`Failed to fetch from ${endpoint}:`, error)
+      continue
     }
-  } catch (error) {
-    console.error("Fallback API error:", error)
   }
+
+  if (!data || !data.pairs || data.pairs.length === 0) {
+    throw new Error(`No trading pairs found for this token. Tried endpoints: ${apiEndpoints.join(', ')}`)
+  }
+
+  // Use the chosen pair, otherwise the best pair by liquidity, volume and quote token
+  const pair = selectDexScreenerPair(data.pairs, {
+    tokenAddress: tokenInfo.isPairAddress ? undefined : tokenInfo.address,
+    pairAddress: pairAddress || (tokenInfo.isPairAddress ? tokenInfo.address : undefined),
+  })!
+  console.log("Using pair:", pair)
+  console.log(`📊 Token data: Price=$${pair.priceUsd}, FDV=$${pair.fdv?.toLocaleString() || 'N/A'}, Supply=${pair.fdv ? (pair.fdv / parseFloat(pair.priceUsd)).toLocaleString() : 'N/A'}`)
+  
+  // Generate historical data based on current price and volume, passing tweet timestamp
+  const historicalData = generateHistoricalDataFromPair(pair, timeframe, tweetTimestamp, chartWindow)
   
-  // If fallback also fails, return mock data
-  const mockData = generateMockChartData(timeframe, tweetTimestamp)
-  const mockPrice = mockData.prices[mockData.prices.length - 1]
-  const mockSupply = 420690000000000 // Typical meme token supply
   return {
-    symbol: "PEPE/USDT",
-    prices: mockData.prices,
-    volumes: mockData.volumes,
-    timestamps: mockData.timestamps,
-    currentPrice: mockPrice,
-    priceChange24h: -15.5,
-    marketCap: mockPrice * mockSupply,
-    tokenSupply: mockSupply,
+    symbol: `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`,
+    prices: historicalData.prices,
+    volumes: historicalData.volumes,
+    timestamps: historicalData.timestamps,
+    currentPrice: parseFloat(pair.priceUsd),
+    priceChange24h: pair.priceChange.h24,
+    marketCap: pair.fdv, // Use real market cap from DexScreener
+    tokenSupply: pair.fdv / parseFloat(pair.priceUsd), // Calculate supply from market cap and price
+    totalSupply: pair.fdv / parseFloat(pair.priceUsd), // DexScreener only reports FDV, so both supplies are the total
+    pair: toPairSummary(pair),
   }
 }
 
-export async function fetchChartData(chartUrl: string, timeframe: string, tweetTimestamp?: string): Promise<ChartApiResponse> {
-  console.log(`Fetching chart data from: ${chartUrl} with timeframe: ${timeframe}`)
-
-  try {
-    // Extract token info from DEX Screener URL
-    const tokenInfo = extractTokenFromUrl(chartUrl)
-    
-    if (!tokenInfo.address || !tokenInfo.chain) {
-      throw new Error("Invalid DEX Screener URL format")
-    }
-
-    // Try multiple API endpoints for better compatibility
-    const apiEndpoints = [
-      `https://api.dexscreener.com/latest/dex/tokens/${tokenInfo.address}`,
-      `https://api.dexscreener.com/latest/dex/search?q=${tokenInfo.address}`,
-    ]
-
-    // Add chain-specific endpoints
-    if (tokenInfo.chain === "solana") {
-      apiEndpoints.push(`https://api.dexscreener.com/latest/dex/tokens/solana/${tokenInfo.address}`)
-    } else if (tokenInfo.chain === "ethereum") {
-      apiEndpoints.push(`https://api.dexscreener.com/latest/dex/tokens/ethereum/${tokenInfo.address}`)
-    }
-
-    let data: DexScreenerResponse | null = null
-    let successfulEndpoint = ""
-
-    // Try each endpoint until one works
-    for (const endpoint of apiEndpoints) {
-      try {
-        console.log(`Trying API endpoint: ${endpoint}`)
-        const response = await fetch(endpoint)
-        
-        if (response.ok) {
-          const responseData = await response.json()
-          console.log(`API response from ${endpoint}:`, responseData)
-          
-          // Handle search endpoint format
-          if (endpoint.includes('/search')) {
-            if (responseData.pairs && responseData.pairs.length > 0) {
-              data = responseData
-              successfulEndpoint = endpoint
-              break
-            }
-          } else {
-            if (responseData.pairs && responseData.pairs.length > 0) {
-              data = responseData
-              successfulEndpoint = endpoint
-              break
-            }
-          }
-        }
-      } catch (error) {
-        console.log(`Failed to fetch from ${endpoint}:`, error)
-        continue
-      }
-    }
+/**
+ * List the DexScreener pools a token trades in, best ranked first (for the pair picker).
+ * DexScreener pair URLs are resolved to their base token first.
+ */
+export async function fetchTokenPairs(chartUrl: string): Promise<PairSummary[]> {
+  const tokenInfo = extractTokenFromUrl(chartUrl)
+  if (!tokenInfo.address || !tokenInfo.chain || tokenInfo.chain === 'coingecko') {
+    return []
+  }
 
-    if (!data || !data.pairs || data.pairs.length === 0) {
-      throw new Error(`No trading pairs found for this token. Tried endpoints: ${apiEndpoints.join(', ')}`)
-    }
+  let tokenAddress = tokenInfo.address
+  if (tokenInfo.isPairAddress) {
+    const pairResponse = await fetch(`https://api.dexscreener.com/latest/dex/pairs/${tokenInfo.chain}/${tokenInfo.address}`)
+    if (!pairResponse.ok) return []
+    const pairData: { pairs?: DexScreenerToken[] | null } = await pairResponse.json()
+    const basePair = pairData.pairs?.[0]
+    if (!basePair) return []
+    tokenAddress = basePair.baseToken.address
+  }
 
-    // Get the most relevant pair (usually the one with highest volume)
-    const pair = data.pairs[0]
-    console.log("Using pair:", pair)
-    console.log(`📊 Token data: Price=$${pair.priceUsd}, FDV=$${pair.fdv?.toLocaleString() || 'N/A'}, Supply=${pair.fdv ? (pair.fdv / parseFloat(pair.priceUsd)).toLocaleString() : 'N/A'}`)
-    
-    // Generate historical data based on current price and volume, passing tweet timestamp
-    const historicalData = generateHistoricalDataFromPair(pair, timeframe, tweetTimestamp)
-    
-    return {
-      symbol: `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`,
-      prices: historicalData.prices,
-      volumes: historicalData.volumes,
-      timestamps: historicalData.timestamps,
-      currentPrice: parseFloat(pair.priceUsd),
-      priceChange24h: pair.priceChange.h24,
-      marketCap: pair.fdv, // Use real market cap from DexScreener
-      tokenSupply: pair.fdv / parseFloat(pair.priceUsd), // Calculate supply from market cap and price
-    }
-  } catch (error) {
-    console.error("Error fetching chart data:", error)
-    
-    // Try fallback with real data from popular token
-    console.log("Trying fallback with real data from popular token...")
-    return await getFallbackRealData(timeframe, tweetTimestamp)
+  const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`)
+  if (!response.ok) {
+    throw new Error(`DexScreener pair lookup failed: ${response.status} ${response.statusText}`)
   }
+
+  const data: DexScreenerResponse = await response.json()
+  const pairs = (data.pairs || []).filter(pair => pair.chainId === tokenInfo.chain)
+  return rankDexScreenerPairs(pairs.length > 0 ? pairs : data.pairs || [], tokenAddress).map(toPairSummary)
 }
 
 function extractTweetId(tweetUrl: string): string | null {
@@ -414,52 +473,24 @@ function extractTweetId(tweetUrl: string): string | null {
 }
 
 function extractTokenFromUrl(input: string): { symbol?: string; chain?: string; address?: string; isPairAddress?: boolean } {
-  // Handle both DexScreener URLs and direct token addresses
+  // Handles chart/trade links (DexScreener, Birdeye, GMGN, pump.fun, Photon, DexTools, explorers,
+  // CoinGecko), "<chain>:<address>" references from token search and bare addresses
   // DexScreener URLs: https://dexscreener.com/solana/7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU (pair address)
   // Direct token addresses: pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn (token address)
+  const link = parseChartLink(input)
   
-  // Check if it's a URL or direct address
-  if (input.startsWith('http')) {
-    // Parse DexScreener URL
-    const urlParts = input.split("/")
-  const chain = urlParts[3] // solana, ethereum, etc.
-    const address = urlParts[4] // PAIR address (not token address!)
-
-    console.log(`Extracted chain: ${chain}, PAIR address: ${address}`)
-
-  // Handle different chain formats
-  let normalizedChain = chain
-  if (chain === "solana") {
-    normalizedChain = "solana"
-  } else if (chain === "ethereum" || chain === "eth") {
-    normalizedChain = "ethereum"
+  if (!link) {
+    console.log(`⚠️ Unrecognised chart link: ${input}`)
+    return {}
   }
-
-    // DexScreener URLs typically contain pair addresses (liquidity pool addresses)
-    const isPairAddress = address && address.length > 10 // Likely a contract address
-
+  
+  console.log(`Extracted chain: ${link.chain}, ${link.kind === 'pair' ? 'PAIR' : 'TOKEN'} address: ${link.address} (${link.source})`)
+  
   return {
-    chain: normalizedChain,
-    address,
-      symbol: "PAIR/USD", // Will be determined by API
-      isPairAddress: isPairAddress || false, // Ensure boolean type
-    }
-  } else {
-    // Direct token address - assume Solana for now (can be enhanced later)
-    console.log(`Direct token address provided: ${input}`)
-    
-    // Detect chain based on address format
-    let chain = "solana" // Default to Solana
-    if (input.startsWith('0x') && input.length === 42) {
-      chain = "ethereum" // Ethereum addresses start with 0x and are 42 chars
-    }
-    
-    return {
-      chain,
-      address: input,
-      symbol: "TOKEN/USD", // Will be determined by API
-      isPairAddress: false, // Direct token address, not a pair
-    }
+    chain: link.chain,
+    address: link.address,
+    symbol: link.kind === 'pair' ? "PAIR/USD" : "TOKEN/USD", // Will be determined by API
+    isPairAddress: link.kind === 'pair',
   }
 }
 
@@ -473,7 +504,10 @@ function extractTokenFromUrl(input: string): { symbol?: string; chain?: string;
 export async function fetchCodexChartData(
   tokenSymbol: string,
   timeframe: string,
-  tweetTimestamp?: string
+  tweetTimestamp?: string,
+  pairAddress?: string, // Chart this pool instead of the token's aggregate bars
+  chartWindow?: ChartWindow,
+  quote?: QuoteDenomination // Price the bars in the chain's native coin or the pair's quote token
 ): Promise<ChartApiResponse> {
   console.log('🚀 Fetching real historical data from Codex GraphQL API')
   
@@ -488,7 +522,17 @@ export async function fetchCodexChartData(
       params.append('tweetTimestamp', tweetTimestamp)
     }
     
-    const response = await fetch(`/api/codex?${params.toString()}`)
+    if (pairAddress) {
+      params.append('pairAddress', pairAddress)
+    }
+    
+    if (quote && quote !== 'USD') {
+      params.append('quote', quote)
+    }
+    
+    appendChartWindowParams(params, chartWindow)
+    
+    const response = await fetch(apiUrl(`/api/codex?${params.toString()}`))
     
     if (!response.ok) {
       const errorData = await response.json()
@@ -496,7 +540,7 @@ export async function fetchCodexChartData(
       // Handle specific error types
       if (response.status === 422 && errorData.warning) {
         // Tweet timestamp before data exists - this is a special case
-        throw new Error(`⚠️ Tweet Timestamp Issue: ${errorData.error}. ${errorData.warning}`)
+        throw new TweetBeforeDataError(`⚠️ Tweet Timestamp Issue: ${errorData.error}. ${errorData.warning}`)
       }
       
       throw new Error(`Codex API error: ${errorData.error || response.statusText}`)
@@ -504,7 +548,7 @@ export async function fetchCodexChartData(
     
     const data: CodexApiResponse = await response.json()
     
-    console.log(`✅ Codex API returned ${data.dataPoints} data points for ${tokenSymbol}`)
+    console.log(`✅ Codex API returned ${data.dataPoints} data points for ${tokenSymbol}${data.cache ? ` (cache ${data.cache.status})` : ''}`)
     
     // Convert to ChartApiResponse format
     return {
@@ -512,12 +556,23 @@ export async function fetchCodexChartData(
       prices: data.prices,
       volumes: data.volumes,
       timestamps: data.timestamps,
+      opens: data.opens,
+      highs: data.highs,
+      lows: data.lows,
+      closes: data.closes,
       currentPrice: data.currentPrice,
       priceChange24h: data.priceChange24h,
       marketCap: data.marketCap,
       tokenSupply: data.tokenSupply,
+      totalSupply: data.totalSupply,
+      quoteCurrency: data.quoteCurrency,
+      supplies: data.supplies,
+      marketCaps: data.marketCaps,
       source: 'codex',
-      dataPoints: data.dataPoints
+      dataPoints: data.dataPoints,
+      resolution: data.resolution,
+      pair: data.pair,
+      cache: data.cache
     }
     
   } catch (error) {
@@ -528,149 +583,239 @@ export async function fetchCodexChartData(
 
 
 /**
- * Enhanced fetchChartData that tries Codex first, then falls back to DexScreener
- * - For popular tokens (Bitcoin, Ethereum, Solana): converts to DexScreener URLs and uses Codex
- * - For other tokens: prioritizes real historical data from Codex GraphQL API
- * - Falls back to DexScreener with generated historical data
+ * Search Codex for tokens by ticker, name or address (typeahead for the Token Address field)
+ * Results are ranked by liquidity so the real token sits above ticker clones
+ */
+export async function searchCodexTokens(phrase: string, limit: number = 8): Promise<CodexTokenSearchResult[]> {
+  const params = new URLSearchParams({ q: phrase, limit: String(limit) })
+  const response = await fetch(apiUrl(`/api/codex-search?${params.toString()}`))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`Token search failed: ${errorData.error || response.statusText}`)
+  }
+
+  const data: { tokens: CodexTokenSearchResult[] } = await response.json()
+
+  // Label each result with its chain; a missing network list only costs the labels
+  const networks = await getCodexNetworks().catch(() => [])
+  return data.tokens.map(token => {
+    const network = networks.find(n => n.id === token.networkId)
+    return { ...token, chain: network ? getChainSlug(network) : undefined }
+  })
+}
+
+// Tickers and names of the majors, mapped to CoinGecko ids (charted as spot assets)
+const popularTokenMap: Record<string, string> = {
+  'bitcoin': 'bitcoin',
+  'btc': 'bitcoin',
+  'ethereum': 'ethereum',
+  'eth': 'ethereum',
+  'solana': 'solana',
+  'sol': 'solana',
+}
+
+// Resolve "bitcoin", "BTC" or "coingecko:<id>" inputs to a CoinGecko id
+function resolveCoinGeckoId(input: string): string | null {
+  const normalized = input.trim().toLowerCase()
+  if (normalized.startsWith('coingecko:')) {
+    return normalized.slice('coingecko:'.length) || null
+  }
+  return popularTokenMap[normalized] || null
+}
+
+export interface ChartDataOptions {
+  // Opt-in for a clearly labelled illustrative chart. When false (the default), only providers
+  // with real price history are used and a NoChartDataError is thrown instead of generating bars.
+  allowSynthetic?: boolean
+  // Pool chosen in the pair picker; overrides the automatic liquidity-ranked selection
+  pair?: PairSummary
+  // Time before/after the tweet to chart; the interval's default window when not set
+  window?: ChartWindow
+  // Other tokens to overlay as returns since the tweet, fetched in parallel with the main token
+  compareWith?: string[]
+  // Price the chart in the chain's native coin or the pair's quote token (Codex bars only)
+  quote?: QuoteDenomination
+}
+
+async function getCodexSymbol(request: ChartDataRequest): Promise<string> {
+  // Format symbol for Codex API (pairAddress:networkId or tokenAddress:networkId)
+  // Throws UnsupportedChainError for chains Codex does not index
+  const networkId = await resolveCodexNetworkId(request.token.chain)
+  return `${request.token.address}:${networkId}`
+}
+
+/**
+ * Enhanced fetchChartData that asks the chart data provider registry for bars
+ * - Popular tokens (Bitcoin, Ethereum, Solana) and "coingecko:<id>" inputs are served by CoinGecko
+ * - Providers are ranked per request (see registerChartDataProvider below)
+ * - The result reports which provider served the data and why the others were skipped
+ * - Strict "real data only" by default; pass allowSynthetic for an illustrative chart
  * - Proper timeline centering around tweet timestamps
  */
 export async function fetchChartDataWithHistory(
   chartUrl: string,
   timeframe: string,
-  tweetTimestamp?: string
+  tweetTimestamp?: string,
+  options: ChartDataOptions = {}
+): Promise<ChartApiResponse> {
+  const comparisonInputs = [...new Set(options.compareWith || [])].filter(input => input && input !== chartUrl)
+  if (comparisonInputs.length === 0) {
+    return await fetchTokenChartData(chartUrl, timeframe, tweetTimestamp, options)
+  }
+
+  console.log(`📊 Fetching ${comparisonInputs.length} comparison token(s) alongside ${chartUrl}`)
+  // The main token's errors still fail the chart; a comparison token that fails is just left out.
+  // Comparisons never use generated bars - returns from made-up history would be meaningless.
+  // They are always in USD: a PAIR quote differs per token, so their lines wouldn't share a currency
+  // (the chart labels them "USD" when the main token is in another quote).
+  const [result, comparisonResults] = await Promise.all([
+    fetchTokenChartData(chartUrl, timeframe, tweetTimestamp, options),
+    Promise.allSettled(comparisonInputs.map(input =>
+      fetchTokenChartData(input, timeframe, tweetTimestamp, { window: options.window, allowSynthetic: false })
+    )),
+  ])
+
+  const comparisons: ComparisonSeries[] = []
+  const comparisonFailures: ComparisonFailure[] = []
+  comparisonResults.forEach((outcome, index) => {
+    const input = comparisonInputs[index]
+    if (outcome.status === 'rejected') {
+      const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'
+      console.warn(`⚠️ Comparison token ${input} failed: ${reason}`)
+      comparisonFailures.push({ input, reason })
+      return
+    }
+    const data = outcome.value
+    // Recent bars from after the tweet can't be rebased to the tweet: there is no return since it
+    if (data.historicalDataUnavailable) {
+      const reason = 'No price history at the tweet (only recent bars)'
+      console.warn(`⚠️ Comparison token ${input} skipped: ${reason}`)
+      comparisonFailures.push({ input, reason })
+      return
+    }
+    comparisons.push({
+      input,
+      symbol: data.symbol.split('/')[0],
+      timestamps: data.timestamps,
+      prices: data.closes?.length === data.prices.length ? data.closes : data.prices,
+      source: data.source,
+    })
+  })
+
+  return { ...result, comparisons, comparisonFailures }
+}
+
+// One token through the provider registry
+async function fetchTokenChartData(
+  chartUrl: string,
+  timeframe: string,
+  tweetTimestamp: string | undefined,
+  options: ChartDataOptions
 ): Promise<ChartApiResponse> {
   console.log('🚀 Using enhanced chart data fetching with API priority routing')
   
-  // Check if this is a major token that should show price instead of market cap
-  // Only BTC, ETH, SOL are mapped here - other hotlist tokens (like PUMP) will show market cap
-  const popularTokenMap: Record<string, string> = {
-    'bitcoin': 'https://dexscreener.com/ethereum/0x2260fac5e5542a773aa44fbcfedf7c193bc2c599', // WBTC
-    'ethereum': 'https://dexscreener.com/ethereum/0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', // WETH
-    'solana': 'https://dexscreener.com/ethereum/0xd31a59c85ae9d8edefec411d448f90841571b89c' // SOL
+  // Spot assets (BTC/ETH/SOL or any CoinGecko id) are charted from CoinGecko, not wrapped DEX tokens
+  const coinGeckoId = resolveCoinGeckoId(chartUrl)
+  if (coinGeckoId) {
+    console.log(`🪙 Detected CoinGecko asset: ${chartUrl} -> ${coinGeckoId}`)
   }
   
-  let actualUrl = chartUrl
-  if (popularTokenMap[chartUrl.toLowerCase()]) {
-    actualUrl = popularTokenMap[chartUrl.toLowerCase()]
-    console.log(`🪙 Detected popular token: ${chartUrl} -> using ${actualUrl}`)
-  }
+  const tokenInfo = coinGeckoId
+    ? { chain: 'coingecko', address: coinGeckoId, isPairAddress: false }
+    : extractTokenFromUrl(chartUrl)
   
-  // Extract token info from the actual URL (might be converted for popular tokens)
-  const tokenInfo = extractTokenFromUrl(actualUrl)
+  if (!tokenInfo.chain || !tokenInfo.address) {
+    throw new UnrecognisedChartLinkError(chartUrl)
+  }
   
-  if (tokenInfo.address && tokenInfo.chain) {
-    // Try Codex API first for real historical data
-    try {
-      // Format symbol for Codex API (pairAddress:networkId or tokenAddress:networkId)
-      // Network IDs from Codex getNetworks API
-      const networkMap: Record<string, string> = {
-        'ethereum': '1',
-        'solana': '1399811149', // Solana network ID from Codex API
-        'bsc': '56',
-        'polygon': '137',
-        'arbitrum': '42161',
-        'optimism': '10'
-      }
-      
-      const networkId = networkMap[tokenInfo.chain] || '1'
-      const codexSymbol = `${tokenInfo.address}:${networkId}`
-      
-      // Log whether we're using a pair address or token address
-      const addressType = tokenInfo.isPairAddress ? 'PAIR address' : 'token address'
-      console.log(`🔍 Trying Codex API with ${addressType}: ${codexSymbol}`)
-      console.log(`📍 Original DexScreener URL: ${chartUrl}`)
-      
-      // For PUMP, force Codex to work by trying without the problematic timestamp validation
-      if (chartUrl === "pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn") {
-        console.log('🔧 PUMP detected: Forcing Codex API to get real historical data (like it worked on 9/10)')
-        
-        try {
-          // Try Codex but ignore timestamp validation errors - get the real data
-          console.log('🚀 PUMP: Attempting Codex API for real historical data')
-          const codexData = await fetchCodexChartData(codexSymbol, timeframe, undefined) // No timestamp to avoid validation
-          console.log('✅ PUMP: Successfully got real data from Codex!')
-          return {
-            ...codexData,
-            source: 'codex-forced',
-            isPopularToken: false
-          }
-        } catch (error) {
-          console.log('⚠️ PUMP: Codex failed, trying with timestamp override')
-          // If that fails, try with timestamp but catch and ignore validation errors
-          try {
-            const codexDataWithTimestamp = await fetchCodexChartData(codexSymbol, timeframe, tweetTimestamp)
-            return {
-              ...codexDataWithTimestamp,
-              source: 'codex-timestamp',
-              isPopularToken: false
-            }
-          } catch (timestampError) {
-            console.log('❌ PUMP: All Codex attempts failed, falling back to DexScreener')
-            const dexScreenerData = await fetchChartData(chartUrl, timeframe, tweetTimestamp)
-            return {
-              ...dexScreenerData,
-              source: 'dexscreener-final-fallback',
-              isPopularToken: false
-            }
-          }
-        }
-      }
-      
-      const codexData = await fetchCodexChartData(codexSymbol, timeframe, tweetTimestamp)
-      console.log('✅ Successfully retrieved data from Codex API')
-      return {
-        ...codexData,
-        isPopularToken: popularTokenMap[chartUrl.toLowerCase()] ? true : false
-      }
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      
-      // Check if this is a tweet timestamp validation error
-      if (errorMessage.includes('Tweet Timestamp Issue')) {
-        console.log('⚠️ Tweet timestamp before token data exists, using DexScreener fallback with current data')
-        console.log('💡 This will show the chart starting from when the token was created, not from the tweet timestamp')
-        
-        // For any token with tweet timestamp issues, try to get real historical data
-        // First attempt: try to get real data without the problematic timestamp
-        console.log('🔧 Attempting to get real historical data from alternative sources')
-        
-        // Since Codex doesn't have historical data for this token at the tweet time,
-        // we need to show current real market data instead of generated historical data
-        console.log('🔄 Getting current real market data instead of generating fake historical data')
-        
-        // Since historical data doesn't exist in Codex for this timestamp,
-        // show current market data instead of generating fake historical data
-        console.log('📊 Historical data unavailable - showing current market data instead')
-        console.log('💡 This means the token may not have been actively trading on the tweet date')
-        
-        // Get real current market data (this will show recent trading activity)
-        const dexScreenerData = await fetchChartData(actualUrl, timeframe, undefined)
-        return {
-          ...dexScreenerData,
-          source: 'dexscreener-current-real',
-          isPopularToken: popularTokenMap[chartUrl.toLowerCase()] ? true : false,
-          historicalDataUnavailable: true // Flag to indicate this is current data, not historical
-        }
-      } else {
-        console.log('⚠️ Codex API failed, falling back to DexScreener:', errorMessage)
-        console.log('💡 This is normal for new/low-volume tokens not yet indexed by Codex. Using DexScreener fallback.')
-      }
-    }
+  const request: ChartDataRequest = {
+    input: chartUrl,
+    token: {
+      chain: tokenInfo.chain,
+      address: tokenInfo.address,
+      isPairAddress: tokenInfo.isPairAddress || false,
+    },
+    // Configured per token; spot assets (CoinGecko ids and coingecko.com links) read as price
+    defaultAxisMode: getTokenConfig(chartUrl)?.defaultAxisMode ?? (tokenInfo.chain === 'coingecko' ? SPOT_ASSET_AXIS_MODE : DEFAULT_AXIS_MODE),
+    allowSynthetic: options.allowSynthetic ?? false,
+    pairAddress: options.pair?.pairAddress,
+    quote: options.quote,
   }
   
-  // Fallback to existing DexScreener integration
-  console.log('🔄 Using DexScreener fallback with generated historical data')
-  const dexScreenerData = await fetchChartData(actualUrl, timeframe, tweetTimestamp)
+  const result = await fetchFromChartDataProviders(request, { tweetTimestamp, window: options.window }, timeframe)
   
-  // Mark the source as dexscreener for transparency
-  return {
-    ...dexScreenerData,
-    source: 'dexscreener',
-    isPopularToken: popularTokenMap[chartUrl.toLowerCase()] ? true : false
-  }
+  // Keep the chosen pool in the chart metadata even when the provider doesn't report one
+  return options.pair && !result.pair ? { ...result, pair: options.pair } : result
 }
 
+// ============= CHART DATA PROVIDERS =============
+
+registerChartDataProvider({
+  id: 'coingecko',
+  capabilities: { realHistory: true, ohlc: false, marketCapHistory: true },
+  supportedChains: ['coingecko'],
+  rank: () => 120,
+  fetchBars: async (request, range, resolution) => {
+    return await fetchCoinGeckoChartData(request.token.address, resolution, range.tweetTimestamp, range.window)
+  },
+})
+
+registerChartDataProvider({
+  id: 'codex-forced',
+  capabilities: { realHistory: true, ohlc: true, marketCapHistory: false },
+  supportedChains: '*', // Resolved against the Codex network list at fetch time
+  rank: (request) => getTokenConfig(request.input)?.codexRecentFirst
+    ? 110
+    : { skip: 'token is not configured for recent-first Codex data' },
+  fetchBars: async (request, _range, resolution) => {
+    // Fetch without the tweet timestamp to avoid the "tweet before data" validation
+    const codexData = await fetchCodexChartData(await getCodexSymbol(request), resolution, undefined, request.pairAddress, undefined, request.quote)
+    return { ...codexData, source: 'codex-forced' }
+  },
+})
+
+registerChartDataProvider({
+  id: 'codex',
+  capabilities: { realHistory: true, ohlc: true, marketCapHistory: false },
+  supportedChains: '*', // Resolved against the Codex network list at fetch time
+  rank: (request) => request.token.chain === 'coingecko'
+    ? { skip: 'CoinGecko assets are not Codex tokens' }
+    : 100,
+  fetchBars: async (request, range, resolution) => {
+    const codexSymbol = await getCodexSymbol(request)
+    const addressType = request.token.isPairAddress ? 'PAIR address' : 'token address'
+    console.log(`🔍 Trying Codex API with ${addressType}: ${codexSymbol}`)
+    return await fetchCodexChartData(codexSymbol, resolution, range.tweetTimestamp, request.pairAddress, range.window, request.quote)
+  },
+})
+
+registerChartDataProvider({
+  id: 'birdeye',
+  capabilities: { realHistory: true, ohlc: true, marketCapHistory: false },
+  supportedChains: ['solana'],
+  rank: () => 80,
+  fetchBars: async (request, range, resolution) => {
+    if (request.pairAddress) {
+      return await fetchBirdeyeChartData(request.pairAddress, true, resolution, range.tweetTimestamp, range.window)
+    }
+    return await fetchBirdeyeChartData(request.token.address, request.token.isPairAddress, resolution, range.tweetTimestamp, range.window)
+  },
+})
+
+registerChartDataProvider({
+  id: 'dexscreener',
+  capabilities: { realHistory: false, ohlc: false, marketCapHistory: false },
+  supportedChains: '*',
+  rank: (request) => request.token.chain === 'coingecko'
+    ? { skip: 'CoinGecko assets have no DEX pair to generate history from' }
+    : 10,
+  fetchBars: async (request, range, resolution) => {
+    // Current DexScreener pair stats with generated history
+    return await fetchDexScreenerPairData(request.input, resolution, range.tweetTimestamp, request.pairAddress, range.window)
+  },
+})
+
 // ============= END CODEX GRAPHQL API INTEGRATION =============
 
 // ============= ENHANCED DEXSCREENER INTEGRATION =============
@@ -688,16 +833,108 @@ export async function fetchDexScreenerChartData(
 ): Promise<ChartApiResponse> {
   console.log('🚀 Using DexScreener integration with smart data generation')
   
-  // Use the existing fetchChartData which already:
-  // 1. Gets real current data from DexScreener API
-  // 2. Generates realistic historical data based on actual price changes
-  // 3. Centers timeline around tweet timestamp
-  return await fetchChartData(dexScreenerUrl, timeframe, tweetTimestamp)
+  // Real current stats from DexScreener with history generated from them, so the result is
+  // marked synthetic. Throws when the token has no DexScreener pair (no stand-in token).
+  const chartData = await fetchDexScreenerPairData(dexScreenerUrl, timeframe, tweetTimestamp)
+  return { ...chartData, isSynthetic: true }
 }
 
 // ============= END ENHANCED DEXSCREENER INTEGRATION =============
 
-function generateHistoricalDataFromPair(pair: DexScreenerToken, timeframe: string, tweetTimestamp?: string) {
+// ============= BIRDEYE OHLCV INTEGRATION =============
+
+/**
+ * Fetch real OHLCV bars for a Solana mint or pair from Birdeye
+ * Most fresh pump.fun tokens are on Birdeye well before Codex indexes them
+ * Uses the /api/birdeye route so the API key stays server-side
+ */
+export async function fetchBirdeyeChartData(
+  address: string,
+  isPairAddress: boolean,
+  timeframe: string,
+  tweetTimestamp?: string,
+  chartWindow?: ChartWindow
+): Promise<ChartApiResponse> {
+  console.log(`🐦 Fetching real OHLCV from Birdeye for ${isPairAddress ? 'pair' : 'token'} ${address}`)
+
+  const params = new URLSearchParams({
+    address,
+    kind: isPairAddress ? 'pair' : 'token',
+    timeframe,
+  })
+
+  if (tweetTimestamp) {
+    params.append('tweetTimestamp', tweetTimestamp)
+  }
+
+  appendChartWindowParams(params, chartWindow)
+
+  const response = await fetch(apiUrl(`/api/birdeye?${params.toString()}`))
+
+  if (!response.ok) {
+    const errorData = await response.json()
+
+    if (response.status === 422 && errorData.warning) {
+      throw new TweetBeforeDataError(`⚠️ Tweet Timestamp Issue: ${errorData.error}. ${errorData.warning}`)
+    }
+
+    throw new Error(`Birdeye API error: ${errorData.error || response.statusText}`)
+  }
+
+  const data: ChartApiResponse = await response.json()
+  console.log(`✅ Birdeye API returned ${data.dataPoints} data points${data.cache ? ` (cache ${data.cache.status})` : ''}`)
+
+  return { ...data, source: 'birdeye' }
+}
+
+// ============= END BIRDEYE OHLCV INTEGRATION =============
+
+// ============= COINGECKO HISTORICAL INTEGRATION =============
+
+/**
+ * Fetch true spot price and market cap history for a CoinGecko id (bitcoin, ethereum, solana...)
+ * Uses the /api/coingecko route (market_chart/range) so an optional API key stays server-side
+ */
+export async function fetchCoinGeckoChartData(
+  coinGeckoId: string,
+  timeframe: string,
+  tweetTimestamp?: string,
+  chartWindow?: ChartWindow
+): Promise<ChartApiResponse> {
+  console.log(`🦎 Fetching spot history from CoinGecko for ${coinGeckoId}`)
+
+  const params = new URLSearchParams({
+    id: coinGeckoId,
+    timeframe,
+  })
+
+  if (tweetTimestamp) {
+    params.append('tweetTimestamp', tweetTimestamp)
+  }
+
+  appendChartWindowParams(params, chartWindow)
+
+  const response = await fetch(apiUrl(`/api/coingecko?${params.toString()}`))
+
+  if (!response.ok) {
+    const errorData = await response.json()
+
+    if (response.status === 422 && errorData.warning) {
+      throw new TweetBeforeDataError(`⚠️ Tweet Timestamp Issue: ${errorData.error}. ${errorData.warning}`)
+    }
+
+    throw new Error(`CoinGecko API error: ${errorData.error || response.statusText}`)
+  }
+
+  const data: ChartApiResponse = await response.json()
+  console.log(`✅ CoinGecko API returned ${data.dataPoints} data points${data.cache ? ` (cache ${data.cache.status})` : ''}`)
+
+  return { ...data, source: 'coingecko', defaultAxisMode: SPOT_ASSET_AXIS_MODE }
+}
+
+// ============= END COINGECKO HISTORICAL INTEGRATION =============
+
+function generateHistoricalDataFromPair(pair: DexScreenerToken, timeframe: string, tweetTimestamp?: string, chartWindow?: ChartWindow) {
   console.log('📊 Generating enhanced realistic historical data based on DexScreener data')
   
   const prices = []
@@ -706,7 +943,6 @@ function generateHistoricalDataFromPair(pair: DexScreenerToken, timeframe: strin
 
   const currentPrice = parseFloat(pair.priceUsd)
   const currentVolume = pair.volume.h24 / 24 // Average hourly volume
-  const intervalMs = getIntervalMs(timeframe)
 
   // Center timeline around tweet time if provided
   let centerTime: Date
@@ -717,11 +953,11 @@ function generateHistoricalDataFromPair(pair: DexScreenerToken, timeframe: strin
     centerTime = new Date() // Default to now
   }
 
-  // Calculate timeline to center the tweet in the middle of the visible timeframe
-  const timeframeMs = getTimeframeInMs(timeframe)
-  const halfTimeframe = timeframeMs / 2
-  const startTime = new Date(centerTime.getTime() - halfTimeframe)
-  const endTime = new Date(centerTime.getTime() + halfTimeframe)
+  // Cover the same window around the tweet as the real data providers
+  const { startMs, endMs } = getChartWindowBounds(timeframe, centerTime.getTime(), chartWindow)
+  const startTime = new Date(startMs)
+  const endTime = new Date(endMs)
+  const intervalMs = getSyntheticIntervalMs(timeframe, chartWindow, endMs - startMs)
 
   console.log(`⏰ Timeline: ${startTime.toISOString()} to ${endTime.toISOString()}`)
 
@@ -805,73 +1041,6 @@ function generateHistoricalDataFromPair(pair: DexScreenerToken, timeframe: strin
   return { prices, volumes, timestamps }
 }
 
-function generateMockChartData(timeframe: string, tweetTimestamp?: string) {
-  const prices = []
-  const volumes = []
-  const timestamps = []
-
-  // Start with a realistic price for a meme token
-  let currentPrice = 0.00012345
-  const intervalMs = getIntervalMs(timeframe)
-
-  // Center around tweet time if provided
-  let centerTime: Date
-  if (tweetTimestamp) {
-    centerTime = new Date(tweetTimestamp)
-    console.log(`Centering mock data around tweet: ${centerTime.toISOString()}`)
-  } else {
-    centerTime = new Date()
-  }
-
-  // Calculate timeline to center the tweet in the middle of the visible timeframe
-  const timeframeMs = getTimeframeInMs(timeframe)
-  const halfTimeframe = timeframeMs / 2
-  const startTime = new Date(centerTime.getTime() - halfTimeframe)
-  const endTime = new Date(centerTime.getTime() + halfTimeframe)
-
-  console.log(`Mock timeline for ${timeframe}: ${startTime.toISOString()} to ${endTime.toISOString()}`)
-
-  const totalTimespan = endTime.getTime() - startTime.getTime()
-  const totalDataPoints = Math.ceil(totalTimespan / intervalMs)
-  
-  // Limit data points for optimal chart readability
-  const maxDataPoints = getOptimalDataPoints(timeframe)
-  const actualDataPoints = Math.min(totalDataPoints, maxDataPoints)
-
-  console.log(`Generating ${actualDataPoints} mock data points (max: ${maxDataPoints}) for ${timeframe} with ${intervalMs}ms intervals`)
-
-  // Create more realistic price movement with trends and volatility
-  let trend = 0
-  let volatility = 0.15 // 15% volatility for meme tokens
-
-  for (let i = 0; i < actualDataPoints; i++) {
-    const time = new Date(startTime.getTime() + i * intervalMs)
-    timestamps.push(time.toISOString())
-
-    // Add trending behavior
-    if (Math.random() > 0.7) {
-      trend = (Math.random() - 0.5) * 0.1 // Random trend changes
-    }
-
-    // Simulate realistic price movement with trend and volatility
-    const randomChange = (Math.random() - 0.5) * volatility
-    const trendChange = trend * 0.1
-    const totalChange = randomChange + trendChange
-    
-    currentPrice *= (1 + totalChange)
-    currentPrice = Math.max(0.000001, currentPrice) // Prevent negative prices
-    
-    prices.push(currentPrice)
-
-    // Generate realistic volume with correlation to price movement
-    const baseVolume = 500000 + Math.random() * 2000000
-    const volumeMultiplier = 1 + Math.abs(totalChange) * 10 // Higher volume on big moves
-    volumes.push(baseVolume * volumeMultiplier)
-  }
-
-  return { prices, volumes, timestamps }
-}
-
 function getDataPointsForTimeframe(timeframe: string): number {
   switch (timeframe) {
     case "5m":
@@ -891,25 +1060,6 @@ function getDataPointsForTimeframe(timeframe: string): number {
   }
 }
 
-function getIntervalMs(timeframe: string): number {
-  switch (timeframe) {
-    case "5m":
-      return 5 * 60 * 1000
-    case "15m":
-      return 15 * 60 * 1000
-    case "1h":
-      return 60 * 60 * 1000
-    case "4h":
-      return 4 * 60 * 60 * 1000
-    case "6h":
-      return 6 * 60 * 60 * 1000
-    case "1d":
-      return 24 * 60 * 60 * 1000
-    default:
-      return 60 * 60 * 1000
-  }
-}
-
 // Helper function to get optimal number of data points for chart readability
 function getOptimalDataPoints(timeframe: string): number {
   switch (timeframe) {
@@ -922,18 +1072,3 @@ function getOptimalDataPoints(timeframe: string): number {
     default: return 24
   }
 }
-
-// Helper function to get total chart window duration in milliseconds
-// This determines how much time the entire chart should cover
-// Shorter timeframes = zoom in (less data), Longer timeframes = zoom out (more data)
-function getTimeframeInMs(timeframe: string): number {
-  switch (timeframe) {
-    case "5m": return 2 * 60 * 60 * 1000      // 2 hours total for 5min candles (24 candles)
-    case "15m": return 6 * 60 * 60 * 1000     // 6 hours total for 15min candles (24 candles)
-    case "1h": return 24 * 60 * 60 * 1000     // 24 hours total for 1h candles (24 candles)
-    case "4h": return 7 * 24 * 60 * 60 * 1000 // 7 days total for 4h candles (42 candles)
-    case "6h": return 10 * 24 * 60 * 60 * 1000 // 10 days total for 6h candles (40 candles)
-    case "1d": return 60 * 24 * 60 * 60 * 1000 // 60 days total for daily candles (60 candles)
-    default: return 24 * 60 * 60 * 1000
-  }
-}
@@ -0,0 +1,150 @@
+// Server-side cache for formatted Codex bar responses
+//
+// Entries are keyed by symbol/timeframe/resolution plus the requested window
+// rounded to resolution-sized buckets, so repeated GENERATE clicks and interval
+// switches reuse the same bars instead of re-running the getBars cascade.
+// Windows that are fully in the past get a long TTL; windows that touch "now"
+// expire quickly so the latest candle keeps updating.
+//
+// The in-memory store is always on. Set CODEX_CACHE_DIR to also persist entries
+// as JSON files so they survive dev server restarts.
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface BarCacheMetadata {
+  status: 'hit' | 'miss'
+  key: string
+  store?: 'memory' | 'disk' // Where a hit was served from
+  ttlSeconds: number
+  cachedAt: string
+  expiresAt: string
+}
+
+interface BarCacheEntry<T> {
+  value: T
+  cachedAt: number
+  expiresAt: number
+}
+
+const HISTORICAL_TTL_SECONDS = 24 * 60 * 60 // Closed windows: bars will not change
+const LIVE_TTL_SECONDS = 60 // Windows touching "now": latest bar is still forming
+const MAX_MEMORY_ENTRIES = 500
+
+const memoryStore = new Map<string, BarCacheEntry<unknown>>()
+
+// Convert a Codex resolution (1, 5, 15, 60, 240, 720, 1D, 7D...) to seconds
+export function getResolutionSeconds(resolution: string): number {
+  if (resolution.endsWith('S')) return parseInt(resolution) || 1
+  if (resolution.endsWith('D')) return (parseInt(resolution) || 1) * 24 * 60 * 60
+  return (parseInt(resolution) || 60) * 60
+}
+
+export function buildBarCacheKey(parts: {
+  symbol: string
+  timeframe: string
+  resolution: string
+  from: number // unix seconds
+  to: number // unix seconds
+  extra?: string // Any other request option that changes the bars
+}): string {
+  const bucketSeconds = getResolutionSeconds(parts.resolution)
+  const fromBucket = Math.floor(parts.from / bucketSeconds)
+  const toBucket = Math.floor(parts.to / bucketSeconds)
+  return [parts.symbol, parts.timeframe, parts.resolution, `${fromBucket}-${toBucket}`, parts.extra]
+    .filter(Boolean)
+    .join('|')
+}
+
+// Long TTL when the window ended more than one bar ago, short TTL otherwise
+export function getBarCacheTtl(to: number, resolution: string, now: number = Date.now()): number {
+  const bucketSeconds = getResolutionSeconds(resolution)
+  const touchesNow = to >= Math.floor(now / 1000) - bucketSeconds
+  return touchesNow ? LIVE_TTL_SECONDS : HISTORICAL_TTL_SECONDS
+}
+
+export async function readBarCache<T>(key: string): Promise<{ value: T; metadata: BarCacheMetadata } | null> {
+  const now = Date.now()
+
+  const memoryEntry = memoryStore.get(key) as BarCacheEntry<T> | undefined
+  if (memoryEntry) {
+    if (memoryEntry.expiresAt > now) {
+      return { value: memoryEntry.value, metadata: toMetadata('hit', key, memoryEntry, 'memory') }
+    }
+    memoryStore.delete(key)
+  }
+
+  const diskEntry = await readDiskEntry<T>(key)
+  if (diskEntry && diskEntry.expiresAt > now) {
+    setMemoryEntry(key, diskEntry)
+    return { value: diskEntry.value, metadata: toMetadata('hit', key, diskEntry, 'disk') }
+  }
+
+  return null
+}
+
+export async function writeBarCache<T>(key: string, value: T, ttlSeconds: number): Promise<BarCacheMetadata> {
+  const cachedAt = Date.now()
+  const entry: BarCacheEntry<T> = { value, cachedAt, expiresAt: cachedAt + ttlSeconds * 1000 }
+
+  setMemoryEntry(key, entry)
+  await writeDiskEntry(key, entry)
+
+  return toMetadata('miss', key, entry)
+}
+
+function setMemoryEntry(key: string, entry: BarCacheEntry<unknown>) {
+  memoryStore.delete(key)
+  memoryStore.set(key, entry)
+
+  // Evict the oldest entries (Map keeps insertion order)
+  while (memoryStore.size > MAX_MEMORY_ENTRIES) {
+    const oldestKey = memoryStore.keys().next().value
+    if (oldestKey === undefined) break
+    memoryStore.delete(oldestKey)
+  }
+}
+
+function toMetadata(status: BarCacheMetadata['status'], key: string, entry: BarCacheEntry<unknown>, store?: BarCacheMetadata['store']): BarCacheMetadata {
+  return {
+    status,
+    key,
+    store,
+    ttlSeconds: Math.round((entry.expiresAt - entry.cachedAt) / 1000),
+    cachedAt: new Date(entry.cachedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+  }
+}
+
+function getDiskPath(key: string): string | null {
+  const cacheDir = process.env.CODEX_CACHE_DIR
+  if (!cacheDir) return null
+  const fileName = createHash('sha1').update(key).digest('hex')
+  return path.join(cacheDir, `${fileName}.json`)
+}
+
+async function readDiskEntry<T>(key: string): Promise<BarCacheEntry<T> | null> {
+  const filePath = getDiskPath(key)
+  if (!filePath) return null
+
+  try {
+    const contents = await fs.readFile(filePath, 'utf8')
+    return JSON.parse(contents) as BarCacheEntry<T>
+  } catch {
+    return null // Missing or unreadable entries are plain misses
+  }
+}
+
+async function writeDiskEntry<T>(key: string, entry: BarCacheEntry<T>) {
+  const filePath = getDiskPath(key)
+  if (!filePath) return
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(entry))
+  } catch (error) {
+    // The disk store is optional - never fail a request because of it
+    console.log(`⚠️ Bar cache disk write failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
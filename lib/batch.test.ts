@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { BatchInputError, formatBatchReport, MAX_BATCH_ROWS, parseBatchInput } from './batch'
+
+const TWEET = 'https://x.com/a1lon9/status/1945238123908067530'
+const TOKEN = 'pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn'
+
+describe('parseBatchInput', () => {
+  describe('CSV', () => {
+    it('reads rows under the header, with the default timeframe and an optional position', () => {
+      const csv = `tweet,token,timeframe,x,y\n${TWEET},${TOKEN},5m,40,60\n${TWEET},bitcoin,,,\n`
+      expect(parseBatchInput(csv, 'text/csv')).toEqual([
+        { row: 1, tweetUrl: TWEET, token: TOKEN, timeframe: '5m', position: { x: 40, y: 60 } },
+        { row: 2, tweetUrl: TWEET, token: 'bitcoin', timeframe: '1h' },
+      ])
+    })
+
+    it('reads quoted fields with commas, escaped quotes and newlines', () => {
+      const csv = `tweet,token\r\n"${TWEET}","coin, ""quoted""\nsecond line"\r\n`
+      expect(parseBatchInput(csv)[0].token).toBe('coin, "quoted"\nsecond line')
+    })
+
+    it('accepts header aliases in any case and order', () => {
+      const csv = `Chart URL,Tweet-URL,Interval\n${TOKEN},${TWEET},4h`
+      expect(parseBatchInput(csv)).toEqual([{ row: 1, tweetUrl: TWEET, token: TOKEN, timeframe: '4h' }])
+    })
+
+    it('skips blank lines', () => {
+      expect(parseBatchInput(`tweet,token\n\n${TWEET},${TOKEN}\n\n`)).toHaveLength(1)
+    })
+
+    it('needs a header line', () => {
+      expect(() => parseBatchInput(`${TWEET},${TOKEN}`)).toThrow(BatchInputError)
+    })
+  })
+
+  describe('JSON', () => {
+    it('reads an array of rows or { rows }, with nested or flat positions', () => {
+      const rows = [
+        { tweet: TWEET, token: TOKEN, position: { x: 20, y: 30 } },
+        { url: TWEET, chart: 'bitcoin', interval: '1d', x: '5', y: 6 },
+      ]
+      const expected = [
+        { row: 1, tweetUrl: TWEET, token: TOKEN, timeframe: '1h', position: { x: 20, y: 30 } },
+        { row: 2, tweetUrl: TWEET, token: 'bitcoin', timeframe: '1d', position: { x: 5, y: 6 } },
+      ]
+      expect(parseBatchInput(JSON.stringify(rows))).toEqual(expected)
+      expect(parseBatchInput(JSON.stringify({ rows }), 'application/json')).toEqual(expected)
+    })
+
+    it('rejects invalid JSON and other shapes', () => {
+      expect(() => parseBatchInput('[{"tweet":')).toThrow('not valid JSON')
+      expect(() => parseBatchInput('{"items":[]}')).toThrow('array of rows')
+      expect(() => parseBatchInput('[42]')).toThrow('Row 1 is not an object')
+    })
+  })
+
+  describe('validation', () => {
+    it('rejects empty batches', () => {
+      expect(() => parseBatchInput('  ')).toThrow('empty')
+      expect(() => parseBatchInput('[]')).toThrow('no rows')
+    })
+
+    it('needs a tweet and a token on every row', () => {
+      expect(() => parseBatchInput(`tweet,token\n${TWEET},`)).toThrow('Row 1 needs both')
+    })
+
+    it('rejects unknown timeframes', () => {
+      expect(() => parseBatchInput(`tweet,token,timeframe\n${TWEET},${TOKEN},7y`)).toThrow('unknown timeframe "7y"')
+    })
+
+    it('rejects a partial or non-numeric position', () => {
+      expect(() => parseBatchInput(`tweet,token,x\n${TWEET},${TOKEN},40`)).toThrow('incomplete card position')
+      expect(() => parseBatchInput(`tweet,token,x,y\n${TWEET},${TOKEN},40,top`)).toThrow('incomplete card position')
+    })
+
+    it(`caps a batch at ${MAX_BATCH_ROWS} rows`, () => {
+      const lines = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => `${TWEET},${TOKEN}`)
+      expect(() => parseBatchInput(['tweet,token', ...lines].join('\n'))).toThrow(`batches of ${MAX_BATCH_ROWS} or fewer`)
+    })
+  })
+})
+
+describe('formatBatchReport', () => {
+  it('writes one quoted CSV line per row', () => {
+    const report = formatBatchReport([
+      { row: { row: 1, tweetUrl: TWEET, token: TOKEN, timeframe: '1h' }, status: 'failed', message: 'No bars, "really"' },
+    ])
+    expect(report).toBe(`row,status,file,tweet,token,timeframe,provider,message\r\n1,failed,,${TWEET},${TOKEN},1h,,"No bars, ""really"""\r\n`)
+  })
+})
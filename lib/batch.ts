@@ -0,0 +1,191 @@
+// Batch rendering input and report
+//
+// A batch is a list of (tweet URL, token, timeframe, optional card position) rows, uploaded
+// as CSV with a header line or as JSON. /api/batch renders every row with the server chart
+// image and returns the PNGs with a report.csv of what happened to each row.
+
+import type { Point } from './chart-image'
+import { DEFAULT_TIMEFRAME, TIMEFRAMES } from './timeframes'
+
+// Rows are rendered one after another against the data providers' rate limits, all within one
+// request, so a full batch has to finish inside the route's maxDuration (app/api/batch/route.ts)
+export const MAX_BATCH_ROWS = 20
+
+export interface BatchRow {
+  row: number // 1-based, as counted in the upload (header excluded)
+  tweetUrl: string
+  token: string // Token address, chart link or CoinGecko id, as typed in the editor
+  timeframe: string
+  position?: Point // Tweet card position from the chart's top-left; cascaded default when absent
+}
+
+// real: rendered from provider bars; illustrative: generated bars (opt-in); failed: no image
+export type BatchRowStatus = 'real' | 'illustrative' | 'failed'
+
+export interface BatchRowResult {
+  row: BatchRow
+  status: BatchRowStatus
+  file?: string // PNG name inside the ZIP
+  provider?: string
+  message?: string // Why the row failed, or what was off about the data
+}
+
+/**
+ * Thrown when the upload can't be read as batch rows (bad CSV/JSON, missing columns, too many rows).
+ */
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BatchInputError'
+  }
+}
+
+// Accepted CSV header / JSON key spellings for each field
+const FIELD_ALIASES: Record<'tweet' | 'token' | 'timeframe' | 'x' | 'y', string[]> = {
+  tweet: ['tweet', 'tweet_url', 'tweeturl', 'url'],
+  token: ['token', 'chart', 'chart_url', 'charturl'],
+  timeframe: ['timeframe', 'interval'],
+  x: ['x'],
+  y: ['y'],
+}
+
+type RawRow = Partial<Record<keyof typeof FIELD_ALIASES, unknown>>
+
+/**
+ * Rows from a CSV (header line required) or JSON upload: an array of rows, or { rows: [...] }.
+ * JSON is detected from the content type or a leading "[" / "{".
+ */
+export function parseBatchInput(text: string, contentType = ''): BatchRow[] {
+  const trimmed = text.trim()
+  if (!trimmed) throw new BatchInputError('The batch is empty')
+
+  const isJson = contentType.includes('json') || trimmed.startsWith('[') || trimmed.startsWith('{')
+  const rawRows = isJson ? readJsonRows(trimmed) : readCsvRows(trimmed)
+
+  if (rawRows.length === 0) throw new BatchInputError('The batch has no rows')
+  if (rawRows.length > MAX_BATCH_ROWS) {
+    throw new BatchInputError(`The batch has ${rawRows.length} rows; split it into batches of ${MAX_BATCH_ROWS} or fewer`)
+  }
+  return rawRows.map((raw, index) => toBatchRow(raw, index + 1))
+}
+
+function readJsonRows(text: string): RawRow[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new BatchInputError('The batch is not valid JSON')
+  }
+
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows
+  if (!Array.isArray(rows)) throw new BatchInputError('JSON batches are an array of rows or { "rows": [...] }')
+
+  return rows.map((row, index) => {
+    if (!row || typeof row !== 'object') throw new BatchInputError(`Row ${index + 1} is not an object`)
+    const entries = Object.entries(row as Record<string, unknown>)
+    const raw = pickFields(entries)
+    // { "position": { "x": 20, "y": 40 } } as well as flat x/y
+    const position = (row as { position?: { x?: unknown; y?: unknown } }).position
+    if (position && typeof position === 'object') {
+      raw.x ??= position.x
+      raw.y ??= position.y
+    }
+    return raw
+  })
+}
+
+function readCsvRows(text: string): RawRow[] {
+  const [header, ...lines] = parseCsv(text).filter(cells => cells.some(cell => cell.trim()))
+  const columns = header.map(cell => cell.trim())
+  const known = new Set(Object.values(FIELD_ALIASES).flat())
+  if (!columns.some(column => known.has(normaliseKey(column)))) {
+    throw new BatchInputError('CSV batches need a header line, e.g. "tweet,token,timeframe,x,y"')
+  }
+  return lines.map(cells => pickFields(columns.map((column, index) => [column, cells[index]])))
+}
+
+// RFC 4180 style: comma separated, double-quoted fields may hold commas, quotes ("") and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  row.push(cell)
+  rows.push(row)
+  return rows
+}
+
+function normaliseKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[\s-]/g, '_')
+}
+
+function pickFields(entries: Array<[string, unknown]>): RawRow {
+  const raw: RawRow = {}
+  for (const [key, value] of entries) {
+    const field = (Object.keys(FIELD_ALIASES) as Array<keyof typeof FIELD_ALIASES>)
+      .find(name => FIELD_ALIASES[name].includes(normaliseKey(key)))
+    if (field && raw[field] === undefined) raw[field] = value
+  }
+  return raw
+}
+
+function toBatchRow(raw: RawRow, row: number): BatchRow {
+  const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '')
+
+  const tweetUrl = text(raw.tweet)
+  const token = text(raw.token)
+  if (!tweetUrl || !token) throw new BatchInputError(`Row ${row} needs both a tweet URL and a token`)
+
+  const timeframe = text(raw.timeframe) || DEFAULT_TIMEFRAME
+  if (!TIMEFRAMES.some(tf => tf.value === timeframe)) {
+    throw new BatchInputError(`Row ${row} has an unknown timeframe "${timeframe}" (use ${TIMEFRAMES.map(tf => tf.value).join(', ')})`)
+  }
+
+  const x = text(raw.x)
+  const y = text(raw.y)
+  if (!x && !y) return { row, tweetUrl, token, timeframe }
+  if (!Number.isFinite(Number(x)) || !Number.isFinite(Number(y)) || !x || !y) {
+    throw new BatchInputError(`Row ${row} has an incomplete card position; give both x and y in pixels`)
+  }
+  return { row, tweetUrl, token, timeframe, position: { x: Number(x), y: Number(y) } }
+}
+
+// One line per row, in upload order, so failed and illustrative rows are easy to filter
+export function formatBatchReport(results: BatchRowResult[]): string {
+  const header = ['row', 'status', 'file', 'tweet', 'token', 'timeframe', 'provider', 'message']
+  const lines = results.map(({ row, status, file, provider, message }) =>
+    [String(row.row), status, file || '', row.tweetUrl, row.token, row.timeframe, provider || '', message || ''].map(toCsvCell).join(',')
+  )
+  return [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+function toCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
@@ -0,0 +1,57 @@
+// Performance since the call
+//
+// Entry is the bar the tweet was posted in; everything after it is what
+// happened to anyone who followed the call.
+
+export interface CallPerformance {
+  entryIndex: number // Bar the tweet falls in (index into the input arrays)
+  entryTime: string
+  entryPrice: number
+  currentPrice: number
+  changePercent: number // Entry to current
+  peakPrice: number // Highest price after the call
+  maxDrawdownPercent: number // Largest peak-to-trough drop after the call (0 or negative)
+}
+
+/**
+ * Entry price at the tweet, current price, % change and max drawdown since the call.
+ * Returns null when there are no bars at or after the tweet.
+ * @param prices one price per bar (closes where available)
+ */
+export function computeCallPerformance(timestamps: string[], prices: number[], tweetTimestamp: string): CallPerformance | null {
+  const tweetTime = new Date(tweetTimestamp).getTime()
+  if (prices.length === 0 || isNaN(tweetTime)) return null
+
+  // Last bar that opened at or before the tweet; the first bar when the tweet predates the data
+  let entryIndex = 0
+  for (let i = 0; i < timestamps.length; i++) {
+    if (new Date(timestamps[i]).getTime() > tweetTime) break
+    entryIndex = i
+  }
+
+  const entryPrice = prices[entryIndex]
+  const currentPrice = prices[prices.length - 1]
+  if (!entryPrice || !currentPrice) return null
+  if (new Date(timestamps[timestamps.length - 1]).getTime() < tweetTime) return null
+
+  let peakPrice = entryPrice
+  let runningPeak = entryPrice
+  let maxDrawdown = 0
+  for (let i = entryIndex; i < prices.length; i++) {
+    const price = prices[i]
+    if (!price) continue
+    runningPeak = Math.max(runningPeak, price)
+    peakPrice = Math.max(peakPrice, price)
+    maxDrawdown = Math.min(maxDrawdown, (price - runningPeak) / runningPeak)
+  }
+
+  return {
+    entryIndex,
+    entryTime: timestamps[entryIndex],
+    entryPrice,
+    currentPrice,
+    changePercent: ((currentPrice - entryPrice) / entryPrice) * 100,
+    peakPrice,
+    maxDrawdownPercent: maxDrawdown * 100,
+  }
+}
@@ -0,0 +1,100 @@
+// Local chart history
+//
+// Every generated chart is kept in the browser's IndexedDB with a thumbnail, the bars it was
+// drawn from and the editor state, so past recharts can be reopened without refetching.
+// The editor inputs are also autosaved to localStorage (as a permalink state) so a refresh
+// doesn't lose work. Nothing here leaves the browser.
+
+import type { ChartApiResponse, TweetApiResponse } from './api'
+import { decodePermalinkState, encodePermalinkState, type PermalinkState } from './permalink'
+import type { ChartWindow } from './timeframes'
+
+export interface ChartHistoryEntry {
+  id: string
+  createdAt: string // ISO timestamp
+  title: string // Token and tweeter, for the gallery
+  thumbnail: string // JPEG data URL of the chart card
+  state: PermalinkState // Editor inputs, card positions and chart options
+  chartData: ChartApiResponse // Bars and metadata the chart was drawn from
+  tweets: TweetApiResponse[]
+  renderedWindow?: ChartWindow // Window the bars were fetched with (stretched for several tweets)
+}
+
+// Oldest entries are dropped past this count; thumbnails and bars add up
+export const MAX_HISTORY_ENTRIES = 50
+
+const DB_NAME = 'recharted'
+const DB_VERSION = 1
+const STORE_NAME = 'charts'
+const EDITOR_DRAFT_KEY = 'recharted:editor'
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      store.createIndex('createdAt', 'createdAt')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run one request in its own transaction and resolve once the transaction has committed
+async function runInStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openHistoryDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Newest first
+export async function listChartHistory(): Promise<ChartHistoryEntry[]> {
+  const entries = await runInStore<ChartHistoryEntry[]>('readonly', store => store.index('createdAt').getAll())
+  return entries.reverse()
+}
+
+export async function saveChartHistoryEntry(entry: ChartHistoryEntry): Promise<void> {
+  await runInStore('readwrite', store => store.put(entry))
+
+  const entries = await listChartHistory()
+  for (const stale of entries.slice(MAX_HISTORY_ENTRIES)) {
+    await deleteChartHistoryEntry(stale.id)
+  }
+}
+
+export async function deleteChartHistoryEntry(id: string): Promise<void> {
+  await runInStore('readwrite', store => store.delete(id))
+}
+
+export function createHistoryId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Autosaved editor inputs, empty fields included; null when there is no draft or it can't be read
+export function loadEditorDraft(): PermalinkState | null {
+  try {
+    const draft = localStorage.getItem(EDITOR_DRAFT_KEY)
+    return draft ? decodePermalinkState(draft, { allowIncomplete: true }) : null
+  } catch {
+    return null // Storage disabled (private mode, blocked cookies)
+  }
+}
+
+export function saveEditorDraft(state: PermalinkState): void {
+  try {
+    localStorage.setItem(EDITOR_DRAFT_KEY, encodePermalinkState(state))
+  } catch {
+    // Storage full or disabled: autosave is best effort
+  }
+}
@@ -0,0 +1,335 @@
+// Chart images rendered on the server
+//
+// The same chart, tweet cards and arrows as the in-app export, drawn with next/og (satori)
+// so images can be produced without a browser: /api/render for bots and scripts, and the
+// Open Graph image of shared /r/<state> links. Always a line chart (linear or log scale):
+// candlesticks, comparison lines and the volume pane are in-app only.
+
+import { ImageResponse } from 'next/og'
+import { fetchChartDataWithHistory, fetchTweetData, type ChartApiResponse, type TweetApiResponse } from './api'
+import { withQuoteUnit, type QuoteDenomination } from './quote-currency'
+import { getChartWindowBounds, spanChartWindow, type ChartWindow } from './timeframes'
+import { DEFAULT_AXIS_MODE, type AxisMode } from './token-config'
+import { formatUsdCompact, formatUsdPrice } from './utils'
+
+export const DEFAULT_IMAGE_WIDTH = 1200
+export const DEFAULT_IMAGE_HEIGHT = 675
+// Each tweet is a server-side fetch and moves the chart window, so one image takes only a few
+export const MAX_IMAGE_TWEETS = 5
+const HEADER_HEIGHT = 80
+
+// Plot area inside the chart container; y-axis labels sit on the right like the live chart
+const PLOT_PADDING = { top: 20, right: 110, bottom: 40, left: 20 }
+const Y_TICKS = 5
+const X_TICKS = 6
+
+// Desktop tweet card size in the app, so positions copied from the editor line up
+const TWEET_CARD_WIDTH = 288
+const TWEET_CARD_HEIGHT = 120
+
+const LINE_COLOR = '#00ff00'
+const ANCHOR_COLOR = '#ffff00'
+const GRID_COLOR = '#333333'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface ChartImageRequest {
+  tweetUrls: string[]
+  token: string // Token address, chart link or CoinGecko id, as typed in the editor
+  timeframe: string
+  chartWindow?: ChartWindow // The interval's default window when not set
+  axisMode?: AxisMode // The token's default axis when not set
+  quote?: QuoteDenomination
+  positions: Point[] // Tweet card positions from the chart's top-left; missing ones are cascaded
+  width: number
+  height: number
+  allowIllustrative?: boolean // Generated bars (labelled on the image) when no provider has real ones
+  logScale?: boolean
+}
+
+// The image and what it was drawn from, for callers that report on the data (batch exports)
+export interface RenderedChartImage {
+  image: ImageResponse
+  chartData: ChartApiResponse
+  tweets: TweetApiResponse[]
+}
+
+/**
+ * Thrown when the provider served fewer than two bars to draw (a line needs two points).
+ */
+export class NotEnoughBarsError extends Error {
+  constructor(token: string) {
+    super(`Not enough bars to draw a chart for ${token}`)
+    this.name = 'NotEnoughBarsError'
+  }
+}
+
+/**
+ * Fetch the tweets and bars (strict real data, like the editor's default) and render the PNG.
+ * The fetchers call the app's own /api routes on the configured origin (lib/api-base-url.ts).
+ */
+export async function renderChartImage(request: ChartImageRequest, headers?: Record<string, string>): Promise<ImageResponse> {
+  return (await renderChartImageWithData(request, headers)).image
+}
+
+export async function renderChartImageWithData(request: ChartImageRequest, headers?: Record<string, string>): Promise<RenderedChartImage> {
+  const { tweetUrls, token, timeframe, chartWindow, width, height } = request
+
+  // Strict: a tweet that can't be loaded fails the image instead of anchoring a placeholder at "now"
+  const tweets = await Promise.all(tweetUrls.map(url => fetchTweetData(url, { strict: true })))
+
+  // Same window as the editor: anchored on the earliest tweet and stretched to keep the latest in view
+  const spanned = spanChartWindow(timeframe, chartWindow, tweets.map(tweet => new Date(tweet.timestamp).getTime()))
+  const fetchWindow = tweets.length > 1 ? spanned.chartWindow : chartWindow
+  const chartData = await fetchChartDataWithHistory(token, timeframe, new Date(spanned.anchorTime).toISOString(), { window: fetchWindow, quote: request.quote, allowSynthetic: request.allowIllustrative })
+
+  const { startMs, endMs } = getChartWindowBounds(timeframe, spanned.anchorTime, fetchWindow)
+  const series = getAxisSeries(chartData, request.axisMode ?? chartData.defaultAxisMode ?? DEFAULT_AXIS_MODE, startMs, endMs)
+  if (series.times.length < 2) throw new NotEnoughBarsError(token)
+
+  const image = new ImageResponse(
+    (
+      <ChartImage
+        chartData={chartData}
+        tweets={tweets}
+        positions={tweets.map((_, index) => request.positions[index] || { x: 20 + index * 40, y: 20 + index * 40 })}
+        series={series}
+        logScale={!!request.logScale}
+        width={width}
+        height={height}
+      />
+    ),
+    { width, height, headers }
+  )
+  return { image, chartData, tweets }
+}
+
+interface AxisSeries {
+  times: number[] // Unix ms per bar
+  values: number[] // Price, market cap or FDV per bar
+  formatValue: (value: number) => string
+}
+
+// Bars in the window, in the units of the chosen axis (the market cap chain mirrors the live chart's)
+function getAxisSeries(chartData: ChartApiResponse, axisMode: AxisMode, startMs: number, endMs: number): AxisSeries {
+  const { prices } = chartData
+  const supplyAt = (index: number): number | undefined => {
+    if (axisMode === 'price') return undefined
+    if (axisMode === 'fdv' && chartData.totalSupply) return chartData.totalSupply
+    if (chartData.supplies?.length === prices.length) return chartData.supplies[index]
+    if (chartData.marketCaps?.length === prices.length && prices[index]) return chartData.marketCaps[index] / prices[index]
+    if (chartData.marketCap && chartData.currentPrice) return chartData.marketCap / chartData.currentPrice
+    return chartData.tokenSupply
+  }
+  const isMarketCap = axisMode !== 'price' && supplyAt(0) !== undefined
+
+  const inWindow: AxisSeries = { times: [], values: [], formatValue: () => '' }
+  const all: AxisSeries = { times: [], values: [], formatValue: () => '' }
+  chartData.timestamps.forEach((timestamp, index) => {
+    const time = new Date(timestamp).getTime()
+    const value = isMarketCap ? prices[index] * (supplyAt(index) || 0) : prices[index]
+    if (!(value > 0)) return
+    all.times.push(time)
+    all.values.push(value)
+    if (time >= startMs && time <= endMs) {
+      inWindow.times.push(time)
+      inWindow.values.push(value)
+    }
+  })
+
+  // Recent-bars fallbacks (tweet before the token's history) lie outside the window: draw what there is
+  const series = inWindow.times.length >= 2 ? inWindow : all
+  const quoteSymbol = chartData.quoteCurrency?.symbol
+  series.formatValue = (value: number) => withQuoteUnit(isMarketCap ? formatUsdCompact(value) : formatUsdPrice(value), quoteSymbol)
+  return series
+}
+
+interface ChartImageProps {
+  chartData: ChartApiResponse
+  tweets: TweetApiResponse[]
+  positions: Point[]
+  series: AxisSeries
+  logScale: boolean
+  width: number
+  height: number
+}
+
+// Header, chart, anchors, arrows and tweet cards; satori needs inline styles and flex layout
+function ChartImage({ chartData, tweets, positions, series, logScale, width, height }: ChartImageProps) {
+  const containerHeight = height - HEADER_HEIGHT
+  const plot = {
+    left: PLOT_PADDING.left,
+    top: PLOT_PADDING.top,
+    right: width - PLOT_PADDING.right,
+    bottom: containerHeight - PLOT_PADDING.bottom,
+  }
+
+  const { times, values } = series
+  const firstTime = times[0]
+  const lastTime = times[times.length - 1]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  // Log scale pads by a ratio instead (every value is positive, see getAxisSeries)
+  const padding = max > min ? (max - min) * 0.1 : max * 0.1
+  const logPadding = max > min ? Math.pow(max / min, 0.1) : 1.1
+  const yMin = logScale ? min / logPadding : Math.max(0, min - padding)
+  const yMax = logScale ? max * logPadding : max + padding
+  const scale = (value: number) => logScale ? Math.log(value) : value
+
+  const xFor = (time: number) => plot.left + ((time - firstTime) / (lastTime - firstTime)) * (plot.right - plot.left)
+  const yFor = (value: number) => plot.bottom - ((scale(value) - scale(yMin)) / (scale(yMax) - scale(yMin))) * (plot.bottom - plot.top)
+
+  const linePoints = times.map((time, index) => `${xFor(time).toFixed(1)} ${yFor(values[index]).toFixed(1)}`)
+  const linePath = `M ${linePoints.join(' L ')}`
+  const areaPath = `${linePath} L ${plot.right} ${plot.bottom} L ${plot.left} ${plot.bottom} Z`
+
+  const yTicks = Array.from({ length: Y_TICKS }, (_, i) => logScale
+    ? yMin * Math.pow(yMax / yMin, i / (Y_TICKS - 1))
+    : yMin + ((yMax - yMin) * i) / (Y_TICKS - 1))
+  const xTicks = Array.from({ length: X_TICKS }, (_, i) => firstTime + ((lastTime - firstTime) * i) / (X_TICKS - 1))
+  const showDates = lastTime - firstTime > 3 * 24 * 60 * 60 * 1000
+
+  const cardPositions = positions.map(position => clampPosition(position, width, containerHeight))
+  const anchors = tweets.map(tweet => anchorPoint(new Date(tweet.timestamp).getTime(), times, values, xFor, yFor))
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width, height, backgroundColor: '#000000', color: '#ffffff' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', height: HEADER_HEIGHT, padding: '0 24px', fontSize: 40, fontWeight: 900 }}>
+        <div style={{ display: 'flex' }}>RECHARTED.IO</div>
+        <div style={{ display: 'flex' }}>{chartData.symbol.split('/')[0]}</div>
+      </div>
+
+      <div style={{ display: 'flex', position: 'relative', width, height: containerHeight }}>
+        <svg width={width} height={containerHeight} style={{ position: 'absolute', left: 0, top: 0 }}>
+          {yTicks.map((tick, index) => (
+            <line key={`y${index}`} x1={plot.left} x2={plot.right} y1={yFor(tick)} y2={yFor(tick)} stroke={GRID_COLOR} strokeWidth={1} />
+          ))}
+          {xTicks.map((tick, index) => (
+            <line key={`x${index}`} x1={xFor(tick)} x2={xFor(tick)} y1={plot.top} y2={plot.bottom} stroke={GRID_COLOR} strokeWidth={1} />
+          ))}
+          <path d={areaPath} fill="rgba(0, 255, 0, 0.1)" />
+          <path d={linePath} stroke={LINE_COLOR} strokeWidth={2} fill="none" />
+        </svg>
+
+        {yTicks.map((tick, index) => (
+          <div key={`yl${index}`} style={{ display: 'flex', position: 'absolute', left: plot.right + 8, top: yFor(tick) - 10, fontSize: 14, fontWeight: 700 }}>
+            {series.formatValue(tick)}
+          </div>
+        ))}
+        {xTicks.map((tick, index) => (
+          <div key={`xl${index}`} style={{ display: 'flex', position: 'absolute', left: xFor(tick) - 50, top: plot.bottom + 10, width: 100, justifyContent: 'center', fontSize: 13, fontWeight: 700 }}>
+            {formatTimeLabel(tick, showDates)}
+          </div>
+        ))}
+
+        {/* Arrows run from each anchor to the middle of its card, under the cards like the live overlay */}
+        <svg width={width} height={containerHeight} style={{ position: 'absolute', left: 0, top: 0 }}>
+          {anchors.map((anchor, index) => {
+            const path = arrowPath(anchor, cardPositions[index])
+            return (
+              <g key={index}>
+                <path d={path} stroke="rgba(255, 255, 0, 0.35)" strokeWidth={10} fill="none" />
+                <path d={path} stroke={ANCHOR_COLOR} strokeWidth={4} fill="none" />
+              </g>
+            )
+          })}
+        </svg>
+
+        {anchors.map((anchor, index) => (
+          <div key={`a${index}`} style={{ display: 'flex', position: 'absolute', left: anchor.x - 10, top: anchor.y - 10, width: 20, height: 20, borderRadius: 10, backgroundColor: ANCHOR_COLOR, border: '2px solid #000000', boxShadow: '0 0 10px rgba(255, 255, 0, 0.8)' }} />
+        ))}
+        {anchors.map((anchor, index) => (
+          <div key={`v${index}`} style={{ display: 'flex', position: 'absolute', left: anchor.x - 60, top: anchor.y + 14, width: 120, justifyContent: 'center' }}>
+            <div style={{ display: 'flex', backgroundColor: '#000000', border: `1px solid ${ANCHOR_COLOR}`, padding: '0 4px', fontSize: 12, fontWeight: 900, color: ANCHOR_COLOR }}>
+              {series.formatValue(anchorValue(new Date(tweets[index].timestamp).getTime(), times, values))}
+            </div>
+          </div>
+        ))}
+
+        {tweets.map((tweet, index) => (
+          <TweetCard key={`t${index}`} tweet={tweet} position={cardPositions[index]} />
+        ))}
+
+        {/* Same label as the editor's illustrative charts */}
+        {chartData.isSynthetic && (
+          <div style={{ display: 'flex', position: 'absolute', top: 8, left: 0, width, justifyContent: 'center' }}>
+            <div style={{ display: 'flex', backgroundColor: '#000000', border: `2px solid ${ANCHOR_COLOR}`, padding: '4px 8px', fontSize: 14, fontWeight: 900, letterSpacing: 2, color: ANCHOR_COLOR }}>
+              ILLUSTRATIVE • GENERATED DATA, NOT REAL PRICE HISTORY
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function TweetCard({ tweet, position }: { tweet: TweetApiResponse; position: Point }) {
+  const posted = new Date(tweet.timestamp)
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', position: 'absolute', left: position.x, top: position.y, width: TWEET_CARD_WIDTH, padding: 12, backgroundColor: '#ffffff', color: '#000000', border: '4px solid #000000', borderRadius: 4, boxShadow: '6px 6px 0px 0px #000000' }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        {tweet.profileImage ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={tweet.profileImage} width={40} height={40} style={{ borderRadius: 20, border: '2px solid #000000', marginRight: 8 }} />
+        ) : (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', width: 40, height: 40, borderRadius: 20, border: '2px solid #000000', backgroundColor: '#d1d5db', marginRight: 8, fontSize: 12, fontWeight: 600 }}>
+            {tweet.username.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 16, fontWeight: 600 }}>{tweet.username}</div>
+          <div style={{ display: 'flex', fontSize: 12, color: '#4b5563' }}>{tweet.handle}</div>
+        </div>
+      </div>
+      <div style={{ display: 'flex', fontSize: 16, lineHeight: 1.25, marginBottom: 12 }}>{tweet.text}</div>
+      <div style={{ display: 'flex', fontSize: 12, color: '#4b5563' }}>
+        {`${posted.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })} · ${posted.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true, timeZone: 'UTC' })} UTC`}
+      </div>
+    </div>
+  )
+}
+
+// Value at the tweet, interpolated between the bars either side (first/last bar outside the data)
+function anchorValue(time: number, times: number[], values: number[]): number {
+  if (time <= times[0]) return values[0]
+  for (let i = 0; i < times.length - 1; i++) {
+    if (time >= times[i] && time <= times[i + 1]) {
+      const factor = (time - times[i]) / (times[i + 1] - times[i])
+      return values[i] + (values[i + 1] - values[i]) * factor
+    }
+  }
+  return values[values.length - 1]
+}
+
+function anchorPoint(time: number, times: number[], values: number[], xFor: (time: number) => number, yFor: (value: number) => number): Point {
+  const clampedTime = Math.min(Math.max(time, times[0]), times[times.length - 1])
+  return { x: xFor(clampedTime), y: yFor(anchorValue(time, times, values)) }
+}
+
+// Same curve as the live overlay: a quadratic arc from the anchor up towards the card centre
+function arrowPath(anchor: Point, position: Point): string {
+  const centerX = position.x + TWEET_CARD_WIDTH / 2
+  const centerY = position.y + TWEET_CARD_HEIGHT / 2
+  const controlX = anchor.x + (centerX - anchor.x) * 0.5
+  const controlY = anchor.y + (centerY - anchor.y) * 0.3 - 50
+  return `M ${anchor.x} ${anchor.y} Q ${controlX} ${controlY} ${centerX} ${centerY}`
+}
+
+// Keep cards inside the chart, as the in-app export does before capturing
+function clampPosition(position: Point, width: number, height: number): Point {
+  return {
+    x: Math.max(0, Math.min(position.x, width - TWEET_CARD_WIDTH)),
+    y: Math.max(0, Math.min(position.y, height - TWEET_CARD_HEIGHT)),
+  }
+}
+
+// Axis labels are in UTC: the server doesn't know the viewer's time zone
+function formatTimeLabel(time: number, showDates: boolean): string {
+  const date = new Date(time)
+  return showDates
+    ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    : date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: 'UTC' })
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { parseChartLink } from './chart-links'
+
+const SOL_MINT = 'pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn'
+const SOL_PAIR = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'
+const EVM_TOKEN = '0x6982508145454ce325ddbe47a25d4ec3d2311933'
+const EVM_PAIR = '0xa43fe16908251ee70ef74718545e4fe6c5ccec9f'
+
+describe('parseChartLink', () => {
+  describe('DexScreener', () => {
+    it('reads the chain and pair address', () => {
+      expect(parseChartLink(`https://dexscreener.com/solana/${SOL_PAIR}`)).toEqual({ chain: 'solana', address: SOL_PAIR, kind: 'pair', source: 'dexscreener' })
+    })
+
+    it('ignores www and query strings', () => {
+      expect(parseChartLink(`https://www.dexscreener.com/ethereum/${EVM_PAIR}?maker=0x1`)).toEqual({ chain: 'ethereum', address: EVM_PAIR, kind: 'pair', source: 'dexscreener' })
+    })
+
+    it('rejects links without an address', () => {
+      expect(parseChartLink('https://dexscreener.com/solana')).toBeNull()
+    })
+  })
+
+  describe('Birdeye', () => {
+    it('reads the chain from ?chain=', () => {
+      expect(parseChartLink(`https://birdeye.so/token/${EVM_TOKEN}?chain=ethereum`)).toEqual({ chain: 'ethereum', address: EVM_TOKEN, kind: 'token', source: 'birdeye' })
+    })
+
+    it('reads the chain from the path', () => {
+      expect(parseChartLink(`https://birdeye.so/solana/token/${SOL_MINT}`)).toEqual({ chain: 'solana', address: SOL_MINT, kind: 'token', source: 'birdeye' })
+    })
+
+    it('defaults pair links to Solana', () => {
+      expect(parseChartLink(`https://birdeye.so/pair/${SOL_PAIR}`)).toEqual({ chain: 'solana', address: SOL_PAIR, kind: 'pair', source: 'birdeye' })
+    })
+  })
+
+  describe('GMGN', () => {
+    it('maps the chain alias', () => {
+      expect(parseChartLink(`https://gmgn.ai/sol/token/${SOL_MINT}`)).toEqual({ chain: 'solana', address: SOL_MINT, kind: 'token', source: 'gmgn' })
+    })
+
+    it('strips the referral prefix', () => {
+      expect(parseChartLink(`https://gmgn.ai/eth/token/abc123_${EVM_TOKEN}`)).toEqual({ chain: 'ethereum', address: EVM_TOKEN, kind: 'token', source: 'gmgn' })
+    })
+  })
+
+  describe('pump.fun', () => {
+    it('reads bare and /coin/ links as Solana tokens', () => {
+      const expected = { chain: 'solana', address: SOL_MINT, kind: 'token', source: 'pump.fun' }
+      expect(parseChartLink(`https://pump.fun/${SOL_MINT}`)).toEqual(expected)
+      expect(parseChartLink(`https://pump.fun/coin/${SOL_MINT}`)).toEqual(expected)
+    })
+  })
+
+  describe('Photon', () => {
+    it('reads the chain from the subdomain', () => {
+      expect(parseChartLink(`https://photon-sol.tinyastro.io/en/lp/${SOL_PAIR}`)).toEqual({ chain: 'solana', address: SOL_PAIR, kind: 'pair', source: 'photon' })
+      expect(parseChartLink(`https://photon-base.tinyastro.io/en/lp/${EVM_PAIR}`)).toEqual({ chain: 'base', address: EVM_PAIR, kind: 'pair', source: 'photon' })
+    })
+  })
+
+  describe('DexTools', () => {
+    it('reads the chain before pair-explorer', () => {
+      expect(parseChartLink(`https://www.dextools.io/app/en/ether/pair-explorer/${EVM_PAIR}`)).toEqual({ chain: 'ethereum', address: EVM_PAIR, kind: 'pair', source: 'dextools' })
+    })
+  })
+
+  describe('explorers', () => {
+    it.each([
+      ['etherscan.io', 'ethereum'],
+      ['basescan.org', 'base'],
+      ['bscscan.com', 'bsc'],
+      ['arbiscan.io', 'arbitrum'],
+      ['polygonscan.com', 'polygon'],
+      ['optimistic.etherscan.io', 'optimism'],
+      ['snowtrace.io', 'avalanche'],
+    ])('reads %s token links as %s', (host, chain) => {
+      expect(parseChartLink(`https://${host}/token/${EVM_TOKEN}`)).toEqual({ chain, address: EVM_TOKEN, kind: 'token', source: 'explorer' })
+    })
+
+    it('reads address pages and Solscan', () => {
+      expect(parseChartLink(`https://etherscan.io/address/${EVM_TOKEN}`)).toEqual({ chain: 'ethereum', address: EVM_TOKEN, kind: 'token', source: 'explorer' })
+      expect(parseChartLink(`https://solscan.io/token/${SOL_MINT}`)).toEqual({ chain: 'solana', address: SOL_MINT, kind: 'token', source: 'explorer' })
+    })
+  })
+
+  describe('CoinGecko', () => {
+    it('reads the coin id', () => {
+      expect(parseChartLink('https://www.coingecko.com/en/coins/bitcoin')).toEqual({ chain: 'coingecko', address: 'bitcoin', kind: 'token', source: 'coingecko' })
+    })
+  })
+
+  describe('chain-qualified input', () => {
+    it('reads "<chain>:<address>" and normalises the chain', () => {
+      expect(parseChartLink(`base:${EVM_TOKEN}`)).toEqual({ chain: 'base', address: EVM_TOKEN, kind: 'token', source: 'chain-qualified' })
+      expect(parseChartLink(`sol:${SOL_MINT}`)).toEqual({ chain: 'solana', address: SOL_MINT, kind: 'token', source: 'chain-qualified' })
+    })
+
+    it('leaves Sui coin types as bare addresses', () => {
+      expect(parseChartLink('0x2::sui::SUI')).toEqual({ chain: 'sui', address: '0x2::sui::SUI', kind: 'token', source: 'address' })
+    })
+  })
+
+  describe('bare addresses', () => {
+    it('detects the chain from the address format', () => {
+      expect(parseChartLink(`  ${SOL_MINT} `)).toEqual({ chain: 'solana', address: SOL_MINT, kind: 'token', source: 'address' })
+      expect(parseChartLink(EVM_TOKEN)).toEqual({ chain: 'ethereum', address: EVM_TOKEN, kind: 'token', source: 'address' })
+    })
+  })
+
+  describe('unrecognised links', () => {
+    it.each([
+      'https://example.com/token/abc',
+      'https://twitter.com/someone/status/1',
+      'https://www.coingecko.com/en/categories',
+      'https://gmgn.ai/sol/address/abc',
+    ])('returns null for %s', (link) => {
+      expect(parseChartLink(link)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,201 @@
+// Chart link parser
+//
+// Turns whatever the user pastes into the Token Address field - a chart or trade
+// link from one of the sites below, a "<chain>:<address>" reference from token
+// search, or a bare address - into { chain, address, kind }.
+//
+// Chains are normalised to DexScreener slugs (ethereum, solana, bsc, base...), which
+// is what lib/codex-networks.ts resolves to Codex network ids.
+//
+// Supported links (examples):
+//   dexscreener.com/solana/<pair>                         pair
+//   birdeye.so/token/<mint>?chain=solana                  token
+//   birdeye.so/solana/token/<mint>, birdeye.so/pair/<pair> token / pair
+//   gmgn.ai/sol/token/<mint>, gmgn.ai/sol/token/<ref>_<mint> token
+//   pump.fun/<mint>, pump.fun/coin/<mint>                 token (solana)
+//   photon-sol.tinyastro.io/en/lp/<pair>                  pair (photon-base, photon-eth...)
+//   dextools.io/app/en/ether/pair-explorer/<pair>         pair
+//   etherscan.io/token/<address> (basescan, bscscan...)   token
+//   solscan.io/token/<mint>                               token
+//   coingecko.com/en/coins/<id>                           token (chain "coingecko")
+
+/**
+ * Thrown when the input is a link from a site we can't read a token or pair from.
+ */
+export class UnrecognisedChartLinkError extends Error {
+  constructor(input: string) {
+    super(`Unrecognised chart link: ${input}. Paste a token address or a DexScreener, Birdeye, GMGN, pump.fun, Photon, DexTools, explorer or CoinGecko link.`)
+    this.name = 'UnrecognisedChartLinkError'
+  }
+}
+
+export type ChartLinkKind = 'token' | 'pair'
+
+export interface ParsedChartLink {
+  chain: string
+  address: string
+  kind: ChartLinkKind
+  source: string // Site or input format the link was recognised as
+}
+
+// Site-specific chain names mapped to DexScreener slugs
+const chainSlugAliases: Record<string, string> = {
+  sol: 'solana',
+  eth: 'ethereum',
+  ether: 'ethereum',
+  bnb: 'bsc',
+  bsc: 'bsc',
+  matic: 'polygon',
+  arb: 'arbitrum',
+  avax: 'avalanche',
+}
+
+// Block explorers and the chain they index
+const explorerChains: Record<string, string> = {
+  'etherscan.io': 'ethereum',
+  'basescan.org': 'base',
+  'bscscan.com': 'bsc',
+  'arbiscan.io': 'arbitrum',
+  'polygonscan.com': 'polygon',
+  'optimistic.etherscan.io': 'optimism',
+  'snowtrace.io': 'avalanche',
+  'solscan.io': 'solana',
+  'tronscan.org': 'tron',
+}
+
+export function normalizeChainSlug(chain: string): string {
+  const slug = chain.trim().toLowerCase()
+  return chainSlugAliases[slug] || slug
+}
+
+/**
+ * Guess the chain of a bare address from its format.
+ * EVM addresses can't be told apart, so they default to Ethereum.
+ */
+export function detectChainFromAddress(address: string): string {
+  if (/^0x[0-9a-fA-F]+::\w+::\w+$/.test(address)) return 'sui' // Sui coin type (0x2::sui::SUI)
+  if (/^0x[0-9a-fA-F]{40}$/.test(address)) return 'ethereum'
+  if (/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address)) return 'tron'
+  return 'solana' // Base58 mints and anything else
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, '')
+}
+
+function parseUrl(input: string): URL | null {
+  try {
+    return new URL(input)
+  } catch {
+    return null
+  }
+}
+
+type SiteParser = (url: URL, segments: string[]) => Omit<ParsedChartLink, 'source'> | null
+
+const siteParsers: Array<{ source: string; matches: (hostname: string) => boolean; parse: SiteParser }> = [
+  {
+    source: 'dexscreener',
+    matches: host => host === 'dexscreener.com',
+    // DexScreener URLs contain pair (liquidity pool) addresses
+    parse: (_url, [chain, address]) => chain && address
+      ? { chain: normalizeChainSlug(chain), address, kind: 'pair' }
+      : null,
+  },
+  {
+    source: 'birdeye',
+    matches: host => host === 'birdeye.so',
+    parse: (url, segments) => {
+      const kindIndex = segments.findIndex(segment => segment === 'token' || segment === 'pair')
+      const address = kindIndex >= 0 ? segments[kindIndex + 1] : undefined
+      if (!address) return null
+      // Chain comes from ?chain= or the segment before token/pair, Solana by default
+      const chain = url.searchParams.get('chain') || (kindIndex > 0 ? segments[kindIndex - 1] : 'solana')
+      return { chain: normalizeChainSlug(chain), address, kind: segments[kindIndex] as ChartLinkKind }
+    },
+  },
+  {
+    source: 'gmgn',
+    matches: host => host === 'gmgn.ai',
+    parse: (_url, [chain, kind, ref]) => {
+      if (!chain || kind !== 'token' || !ref) return null
+      // Referral links prefix the address with "<code>_"
+      const address = ref.includes('_') ? ref.slice(ref.lastIndexOf('_') + 1) : ref
+      return { chain: normalizeChainSlug(chain), address, kind: 'token' }
+    },
+  },
+  {
+    source: 'pump.fun',
+    matches: host => host === 'pump.fun',
+    parse: (_url, segments) => {
+      const address = segments[0] === 'coin' ? segments[1] : segments[0]
+      return address ? { chain: 'solana', address, kind: 'token' } : null
+    },
+  },
+  {
+    source: 'photon',
+    matches: host => /^photon-[a-z]+\.tinyastro\.io$/.test(host),
+    parse: (url, segments) => {
+      const lpIndex = segments.indexOf('lp')
+      const address = lpIndex >= 0 ? segments[lpIndex + 1] : undefined
+      if (!address) return null
+      // photon-sol, photon-base, photon-eth... name the chain in the subdomain
+      const chain = url.hostname.match(/^photon-([a-z]+)\./)![1]
+      return { chain: normalizeChainSlug(chain), address, kind: 'pair' }
+    },
+  },
+  {
+    source: 'dextools',
+    matches: host => host === 'dextools.io',
+    parse: (_url, segments) => {
+      const explorerIndex = segments.indexOf('pair-explorer')
+      const address = explorerIndex > 0 ? segments[explorerIndex + 1] : undefined
+      return address ? { chain: normalizeChainSlug(segments[explorerIndex - 1]), address, kind: 'pair' } : null
+    },
+  },
+  {
+    source: 'explorer',
+    matches: host => host in explorerChains,
+    parse: (url, segments) => {
+      const kindIndex = segments.findIndex(segment => segment === 'token' || segment === 'address')
+      const address = kindIndex >= 0 ? segments[kindIndex + 1] : undefined
+      return address ? { chain: explorerChains[stripWww(url.hostname.toLowerCase())], address, kind: 'token' } : null
+    },
+  },
+  {
+    source: 'coingecko',
+    matches: host => host === 'coingecko.com',
+    parse: (_url, segments) => {
+      const coinsIndex = segments.indexOf('coins')
+      const id = coinsIndex >= 0 ? segments[coinsIndex + 1] : undefined
+      return id ? { chain: 'coingecko', address: id, kind: 'token' } : null
+    },
+  },
+]
+
+/**
+ * Parse a chart/trade link, "<chain>:<address>" reference or bare address.
+ * Returns null for links from sites we don't recognise.
+ */
+export function parseChartLink(input: string): ParsedChartLink | null {
+  const trimmed = input.trim()
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    const url = parseUrl(trimmed)
+    if (!url) return null
+
+    const hostname = stripWww(url.hostname.toLowerCase())
+    const segments = url.pathname.split('/').filter(Boolean)
+    const site = siteParsers.find(parser => parser.matches(hostname))
+    const parsed = site?.parse(url, segments)
+    return site && parsed ? { ...parsed, source: site.source } : null
+  }
+
+  // "<chain>:<address>" from token search (a single colon - Sui coin types use "::"; never "://")
+  const chainQualified = trimmed.match(/^([a-z][a-z0-9-]*):(?![:/])(.+)$/)
+  if (chainQualified) {
+    return { chain: normalizeChainSlug(chainQualified[1]), address: chainQualified[2], kind: 'token', source: 'chain-qualified' }
+  }
+
+  return { chain: detectChainFromAddress(trimmed), address: trimmed, kind: 'token', source: 'address' }
+}
@@ -0,0 +1,184 @@
+// Chart data provider registry
+//
+// Each data source (Codex, Birdeye, DexScreener...) is described as a
+// ChartDataProvider. fetchChartDataWithHistory builds a ChartDataRequest,
+// the registry ranks every registered provider for that request and tries
+// them in order until one serves bars. Adding or reordering a source only
+// means registering a provider with a different rank.
+
+import type { ChartApiResponse } from './api'
+import type { ChartWindow } from './timeframes'
+import type { AxisMode } from './token-config'
+import type { QuoteDenomination } from './quote-currency'
+
+export interface ChartDataProviderCapabilities {
+  realHistory: boolean // Bars come from real trades (false = generated/synthetic)
+  ohlc: boolean // Provider returns open/high/low/close, not just a single price
+  marketCapHistory: boolean // Provider returns per-bar market cap
+}
+
+// Token reference resolved from the user input (URL, address or popular token id)
+export interface ChartTokenRef {
+  chain: string
+  address: string
+  isPairAddress: boolean
+}
+
+export interface ChartDataRequest {
+  input: string // Raw user input (DexScreener URL, token address, popular token id)
+  token: ChartTokenRef
+  defaultAxisMode: AxisMode // Axis the token is read on until the user picks one
+  allowSynthetic: boolean // false = strict "real data only" mode, synthetic providers are skipped
+  pairAddress?: string // Pool chosen by the user instead of the automatically ranked pair
+  quote?: QuoteDenomination // Currency to price the bars in (USD when not set; only Codex re-denominates)
+}
+
+// Time range of the bars to fetch, relative to the tweet
+export interface ChartBarsRange {
+  tweetTimestamp?: string
+  window?: ChartWindow // Time before/after the tweet; the interval default when not set
+}
+
+export interface ChartDataProvider {
+  id: string
+  capabilities: ChartDataProviderCapabilities
+  supportedChains: string[] | '*'
+  // Higher ranks are tried first. Return { skip } to opt out of a request.
+  rank(request: ChartDataRequest): number | { skip: string }
+  fetchBars(request: ChartDataRequest, range: ChartBarsRange, resolution: string): Promise<ChartApiResponse>
+}
+
+export interface ProviderAttempt {
+  provider: string
+  status: 'served' | 'skipped' | 'failed'
+  reason: string
+}
+
+/**
+ * Thrown by a provider when the tweet predates the bars it has for the token.
+ * Providers tried after it are asked for recent data instead, and the result
+ * is flagged with historicalDataUnavailable.
+ */
+export class TweetBeforeDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TweetBeforeDataError'
+  }
+}
+
+/**
+ * Thrown when every provider was skipped or failed for a request.
+ * `attempts` explains what happened to each provider; `strict` is true when
+ * synthetic providers were skipped because the request asked for real data only.
+ */
+export class NoChartDataError extends Error {
+  attempts: ProviderAttempt[]
+  strict: boolean
+
+  constructor(attempts: ProviderAttempt[], strict: boolean) {
+    const details = attempts.map(a => `${a.provider} ${a.status} (${a.reason})`).join('; ')
+    super(strict
+      ? `No real price history found for this token. Refusing to generate a synthetic chart: ${details}`
+      : `No chart data provider could serve this token: ${details}`)
+    this.name = 'NoChartDataError'
+    this.attempts = attempts
+    this.strict = strict
+  }
+}
+
+const providers: ChartDataProvider[] = []
+
+export function registerChartDataProvider(provider: ChartDataProvider): void {
+  const existingIndex = providers.findIndex(p => p.id === provider.id)
+  if (existingIndex >= 0) {
+    providers[existingIndex] = provider
+  } else {
+    providers.push(provider)
+  }
+}
+
+export function getChartDataProviders(): ChartDataProvider[] {
+  return [...providers]
+}
+
+/**
+ * Rank the registered providers for a request.
+ * Returns the providers to try (best first) and the ones that were skipped, with reasons.
+ */
+export function rankChartDataProviders(request: ChartDataRequest): {
+  ranked: ChartDataProvider[]
+  skipped: ProviderAttempt[]
+} {
+  const scored: Array<{ provider: ChartDataProvider; score: number }> = []
+  const skipped: ProviderAttempt[] = []
+
+  for (const provider of providers) {
+    if (!request.allowSynthetic && !provider.capabilities.realHistory) {
+      skipped.push({ provider: provider.id, status: 'skipped', reason: 'strict mode: provider generates synthetic history' })
+      continue
+    }
+
+    if (provider.supportedChains !== '*' && !provider.supportedChains.includes(request.token.chain)) {
+      skipped.push({ provider: provider.id, status: 'skipped', reason: `chain "${request.token.chain}" not supported` })
+      continue
+    }
+
+    const rank = provider.rank(request)
+    if (typeof rank !== 'number') {
+      skipped.push({ provider: provider.id, status: 'skipped', reason: rank.skip })
+      continue
+    }
+
+    scored.push({ provider, score: rank })
+  }
+
+  scored.sort((a, b) => b.score - a.score)
+  return { ranked: scored.map(s => s.provider), skipped }
+}
+
+/**
+ * Try the ranked providers in order until one returns bars.
+ * The response reports which provider served the data and why the others were skipped.
+ */
+export async function fetchFromChartDataProviders(
+  request: ChartDataRequest,
+  range: ChartBarsRange,
+  resolution: string
+): Promise<ChartApiResponse> {
+  const { ranked, skipped } = rankChartDataProviders(request)
+  const attempts: ProviderAttempt[] = [...skipped]
+  let currentRange = range
+  let historicalDataUnavailable = false
+
+  console.log(`🧭 Provider order for ${request.input}: ${ranked.map(p => p.id).join(' → ') || 'none'}`)
+
+  for (const provider of ranked) {
+    try {
+      const data = await provider.fetchBars(request, currentRange, resolution)
+      attempts.push({ provider: provider.id, status: 'served', reason: historicalDataUnavailable ? 'served recent data (tweet predates history)' : 'served requested range' })
+      console.log(`✅ ${provider.id} served ${data.prices.length} bars`)
+
+      return {
+        ...data,
+        source: data.source || provider.id,
+        provider: provider.id,
+        providerAttempts: attempts,
+        isSynthetic: !provider.capabilities.realHistory,
+        defaultAxisMode: data.defaultAxisMode ?? request.defaultAxisMode,
+        ...(historicalDataUnavailable ? { historicalDataUnavailable: true } : {}),
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error'
+      attempts.push({ provider: provider.id, status: 'failed', reason })
+      console.log(`⚠️ ${provider.id} failed: ${reason}`)
+
+      if (error instanceof TweetBeforeDataError && currentRange.tweetTimestamp) {
+        console.log('💡 Tweet predates available history, asking remaining providers for recent data')
+        currentRange = { ...currentRange, tweetTimestamp: undefined }
+        historicalDataUnavailable = true
+      }
+    }
+  }
+
+  throw new NoChartDataError(attempts, !request.allowSynthetic)
+}
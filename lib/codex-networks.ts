@@ -0,0 +1,101 @@
+// Codex network resolution
+//
+// Chain slugs (from DexScreener URLs or address detection) are resolved to Codex
+// network ids using the live getNetworks list served by /api/codex-networks,
+// instead of a hard-coded table. The list is fetched once per session.
+
+import { apiUrl } from './api-base-url'
+
+export interface CodexNetwork {
+  id: number
+  name: string
+  networkShortName?: string | null
+}
+
+/**
+ * Thrown when a chain has no matching Codex network, so callers fail with a clear
+ * message instead of querying the wrong chain.
+ */
+export class UnsupportedChainError extends Error {
+  chain: string
+
+  constructor(chain: string) {
+    super(`Chain "${chain}" is not supported by Codex`)
+    this.name = 'UnsupportedChainError'
+    this.chain = chain
+  }
+}
+
+// DexScreener chain slugs whose Codex name/short name differs from the slug
+const chainAliases: Record<string, string[]> = {
+  ethereum: ['eth', 'ethereum'],
+  bsc: ['bsc', 'bnb', 'bnb-chain', 'binance-smart-chain'],
+  polygon: ['polygon', 'matic'],
+  arbitrum: ['arbitrum', 'arbitrum-one'],
+  avalanche: ['avalanche', 'avax', 'avalanche-c-chain'],
+  solana: ['solana', 'sol'],
+}
+
+// Lowercase with dashes for spaces, so "BNB Chain" and "bnb-chain" compare equal
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+// Find the Codex network for a chain slug, matching on the short name first, then the display name
+export function findCodexNetwork(networks: CodexNetwork[], chain: string): CodexNetwork | undefined {
+  const slug = normalize(chain)
+  const candidates = chainAliases[slug] || [slug]
+
+  for (const candidate of candidates) {
+    const byShortName = networks.find(n => n.networkShortName && normalize(n.networkShortName) === candidate)
+    if (byShortName) return byShortName
+  }
+
+  for (const candidate of candidates) {
+    const byName = networks.find(n => normalize(n.name) === candidate)
+    if (byName) return byName
+  }
+
+  return undefined
+}
+
+// Chain slug used in chart inputs for a Codex network (the inverse of findCodexNetwork)
+export function getChainSlug(network: CodexNetwork): string {
+  const names = [network.networkShortName, network.name].filter((n): n is string => !!n).map(normalize)
+  const aliased = Object.entries(chainAliases).find(([, aliases]) => aliases.some(alias => names.includes(alias)))
+  if (aliased) return aliased[0]
+  return names[0] || String(network.id)
+}
+
+let networksPromise: Promise<CodexNetwork[]> | null = null
+
+// Load the Codex network list once; a failed load is retried on the next call
+export function getCodexNetworks(): Promise<CodexNetwork[]> {
+  if (!networksPromise) {
+    networksPromise = (async () => {
+      const response = await fetch(apiUrl('/api/codex-networks'))
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(`Could not load Codex networks: ${errorData.error || response.statusText}`)
+      }
+      const data: { networks: CodexNetwork[] } = await response.json()
+      return data.networks
+    })()
+
+    networksPromise.catch(() => {
+      networksPromise = null
+    })
+  }
+
+  return networksPromise
+}
+
+// Resolve a chain slug (solana, base, sui...) to the Codex network id used in getBars symbols
+export async function resolveCodexNetworkId(chain: string): Promise<string> {
+  const networks = await getCodexNetworks()
+  const network = findCodexNetwork(networks, chain)
+  if (!network) {
+    throw new UnsupportedChainError(chain)
+  }
+  return String(network.id)
+}
@@ -0,0 +1,52 @@
+// Multi-token comparison
+//
+// Tokens with different prices only compare fairly as returns, so every series is
+// rebased to 0% at the tweet and sampled on the main token's bars to share its x-axis.
+
+export interface ComparisonSeries {
+  input: string // Token address, ticker link or CoinGecko id as entered
+  symbol: string
+  timestamps: string[]
+  prices: number[] // Closes where the provider has them
+  source?: string
+}
+
+export interface ComparisonFailure {
+  input: string
+  reason: string
+}
+
+/**
+ * Sample a series on another series' bars: the last value at or before each target bar,
+ * null before the series starts.
+ */
+export function alignToTimestamps(targetTimestamps: string[], sourceTimestamps: string[], values: number[]): Array<number | null> {
+  const aligned: Array<number | null> = []
+  let sourceIndex = -1
+  for (const timestamp of targetTimestamps) {
+    const time = new Date(timestamp).getTime()
+    while (sourceIndex + 1 < sourceTimestamps.length && new Date(sourceTimestamps[sourceIndex + 1]).getTime() <= time) {
+      sourceIndex++
+    }
+    const value = sourceIndex >= 0 ? values[sourceIndex] : undefined
+    aligned.push(value && value > 0 ? value : null)
+  }
+  return aligned
+}
+
+/**
+ * % change of every bar from the value at the tweet (the last bar at or before it, or the
+ * first bar with a value when the series starts after the tweet). All null when there is no base.
+ */
+export function rebaseToTweet(timestamps: string[], values: Array<number | null>, tweetTimestamp: string): Array<number | null> {
+  const tweetTime = new Date(tweetTimestamp).getTime()
+  let base: number | null = null
+  for (let i = 0; i < timestamps.length; i++) {
+    const value = values[i]
+    if (value === null) continue
+    if (base === null || new Date(timestamps[i]).getTime() <= tweetTime) base = value
+    if (new Date(timestamps[i]).getTime() > tweetTime) break
+  }
+  if (!base) return values.map(() => null)
+  return values.map(value => (value === null ? null : ((value - base!) / base!) * 100))
+}
@@ -0,0 +1,79 @@
+// DexScreener pair selection
+//
+// A token usually trades in several pools. Taking pairs[0] picks whatever
+// DexScreener lists first, which can be a dust pool with a wrong price or FDV.
+// Pairs are ranked by liquidity and 24h volume instead, with a bonus for the
+// quote tokens the price is most reliable against (USDC, SOL, WETH...).
+
+import type { DexScreenerToken } from './api'
+
+// Compact description of the pool a chart was built from (kept in the chart metadata)
+export interface PairSummary {
+  pairAddress: string
+  chainId: string
+  dexId: string
+  url?: string
+  baseSymbol: string
+  quoteSymbol: string
+  quoteAddress?: string // Quote token, for charts denominated in the paired token
+  liquidityUsd: number
+  volume24h: number
+}
+
+// Quote tokens in order of preference; the score bonus drops with the position
+const PREFERRED_QUOTE_SYMBOLS = ['USDC', 'SOL', 'WSOL', 'WETH', 'ETH', 'USDT']
+const QUOTE_PREFERENCE_BONUS = 1.5
+
+function scorePair(pair: DexScreenerToken): number {
+  // Log scale so a 10x bigger pool wins, but volume and quote preference still matter
+  const liquidity = Math.log10(1 + (pair.liquidity?.usd || 0))
+  const volume = Math.log10(1 + (pair.volume?.h24 || 0))
+  const quoteIndex = PREFERRED_QUOTE_SYMBOLS.indexOf(pair.quoteToken?.symbol?.toUpperCase())
+  const quoteBonus = quoteIndex >= 0 ? QUOTE_PREFERENCE_BONUS * (1 - quoteIndex / PREFERRED_QUOTE_SYMBOLS.length) : 0
+  return liquidity * 2 + volume + quoteBonus
+}
+
+/**
+ * Rank the pairs of a token, best first.
+ * When tokenAddress is given, pairs where the token is the base token are kept first
+ * (DexScreener also lists pools where it is only the quote side).
+ */
+export function rankDexScreenerPairs(pairs: DexScreenerToken[], tokenAddress?: string): DexScreenerToken[] {
+  const address = tokenAddress?.toLowerCase()
+  const isBase = (pair: DexScreenerToken) => !address || pair.baseToken?.address?.toLowerCase() === address
+
+  return [...pairs].sort((a, b) => {
+    const baseOrder = Number(isBase(b)) - Number(isBase(a))
+    return baseOrder !== 0 ? baseOrder : scorePair(b) - scorePair(a)
+  })
+}
+
+/**
+ * Pick the pair to chart: the user's override when it is one of the pairs, otherwise the best ranked one.
+ */
+export function selectDexScreenerPair(
+  pairs: DexScreenerToken[],
+  options: { tokenAddress?: string; pairAddress?: string } = {}
+): DexScreenerToken | undefined {
+  if (options.pairAddress) {
+    const override = pairs.find(pair => pair.pairAddress.toLowerCase() === options.pairAddress!.toLowerCase())
+    if (override) return override
+    console.log(`⚠️ Selected pair ${options.pairAddress} not found, using best ranked pair`)
+  }
+
+  return rankDexScreenerPairs(pairs, options.tokenAddress)[0]
+}
+
+export function toPairSummary(pair: DexScreenerToken): PairSummary {
+  return {
+    pairAddress: pair.pairAddress,
+    chainId: pair.chainId,
+    dexId: pair.dexId,
+    url: pair.url,
+    baseSymbol: pair.baseToken?.symbol,
+    quoteSymbol: pair.quoteToken?.symbol,
+    quoteAddress: pair.quoteToken?.address,
+    liquidityUsd: pair.liquidity?.usd || 0,
+    volume24h: pair.volume?.h24 || 0,
+  }
+}
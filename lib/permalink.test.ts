@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { decodePermalinkState, encodePermalinkState, type PermalinkState } from './permalink'
+import { TWEET_TO_NOW_WINDOW } from './timeframes'
+
+const STATE: PermalinkState = {
+  tweetUrls: ['https://x.com/a1lon9/status/1945238123908067530', 'https://x.com/someone/status/1'],
+  chartUrl: 'pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn',
+  selectedToken: '',
+  timeframe: '5m',
+  chartWindow: { beforeMs: 3600 * 1000, afterMs: 7200 * 1000 },
+  tweetPositions: [{ x: 40, y: 40 }, { x: 300, y: 120 }],
+  compareTokens: 'bitcoin, ëth',
+  axisMode: 'price',
+  quote: 'NATIVE',
+  chartStyle: 'candlestick',
+  logScale: true,
+  showVolume: true,
+  allowIllustrative: true,
+}
+
+// "v1." + base64url of a raw JSON text
+function encodeRaw(json: string): string {
+  return `v1.${Buffer.from(json).toString('base64url')}`
+}
+
+describe('decodePermalinkState', () => {
+  it('round-trips every field, with or without the "#"', () => {
+    const hash = encodePermalinkState(STATE)
+    expect(decodePermalinkState(hash)).toEqual(STATE)
+    expect(decodePermalinkState(`#${hash}`)).toEqual(STATE)
+  })
+
+  it('round-trips the tweet-to-now window', () => {
+    const state = { ...STATE, chartWindow: TWEET_TO_NOW_WINDOW }
+    expect(decodePermalinkState(encodePermalinkState(state))?.chartWindow).toEqual(TWEET_TO_NOW_WINDOW)
+  })
+
+  it('rejects other versions', () => {
+    expect(decodePermalinkState(encodePermalinkState(STATE).replace(/^v1\./, 'v2.'))).toBeNull()
+    expect(decodePermalinkState('')).toBeNull()
+  })
+
+  it('rejects bad base64 and bad JSON', () => {
+    expect(decodePermalinkState('v1.!!!')).toBeNull()
+    expect(decodePermalinkState(encodeRaw('{"t":'))).toBeNull()
+  })
+
+  it('rejects payloads that are not objects', () => {
+    expect(decodePermalinkState('#v1.bnVsbA')).toBeNull() // "null"
+    expect(decodePermalinkState(encodeRaw('[]'))).toBeNull()
+    expect(decodePermalinkState(encodeRaw('42'))).toBeNull()
+  })
+
+  it('needs a tweet and a chart input unless incomplete states are allowed', () => {
+    const draft = { ...STATE, tweetUrls: [], chartUrl: '' }
+    expect(decodePermalinkState(encodePermalinkState(draft))).toBeNull()
+    expect(decodePermalinkState(encodePermalinkState(draft), { allowIncomplete: true })).toEqual(draft)
+  })
+
+  it('falls back to defaults for invalid optional fields', () => {
+    const decoded = decodePermalinkState(encodeRaw('{"t":["https://x.com/a/status/1"],"c":"bitcoin","f":"7y","w":[-1,5],"a":"volume","p":[[1],[2,3]]}'))
+    expect(decoded).toMatchObject({ timeframe: '1h', chartWindow: null, axisMode: null, tweetPositions: [{ x: 2, y: 3 }] })
+  })
+})
@@ -0,0 +1,140 @@
+// Shareable editor links
+//
+// The editor state is packed as "v1.<base64url JSON>" with short keys and defaults left out,
+// so links stay short. Shared links are /r/<state>: the server renders that state as the
+// link's Open Graph image, then the page opens the editor at /#<state>. The version prefix
+// lets a later format change keep decoding old links (or reject them cleanly).
+
+import { DEFAULT_TIMEFRAME, TIMEFRAMES, TWEET_TO_NOW_WINDOW, type ChartWindow } from './timeframes'
+import { AXIS_MODES, type AxisMode } from './token-config'
+import { DEFAULT_QUOTE_DENOMINATION, parseQuoteDenomination, type QuoteDenomination } from './quote-currency'
+
+export const PERMALINK_VERSION = 1
+
+export interface PermalinkState {
+  tweetUrls: string[]
+  chartUrl: string
+  selectedToken: string // Hotlist token address, "" when the token was typed or searched
+  timeframe: string
+  chartWindow: ChartWindow | null // null = the interval's default window
+  tweetPositions: Array<{ x: number; y: number }>
+  compareTokens: string
+  axisMode: AxisMode | null // null = the token's default
+  quote: QuoteDenomination
+  chartStyle: 'line' | 'candlestick'
+  logScale: boolean
+  showVolume: boolean
+  allowIllustrative: boolean
+}
+
+// Wire format: one-letter keys, optional fields omitted when they hold the default
+interface EncodedState {
+  t: string[] // Tweet URLs
+  c: string // Chart input
+  s?: string // Selected hotlist token
+  f?: string // Timeframe
+  w?: [number, number] | 'now' // Window before/after the tweet in seconds, or tweet-to-now
+  p?: Array<[number, number]> // Tweet card positions
+  m?: string // Comparison tokens
+  a?: AxisMode
+  q?: QuoteDenomination
+  y?: 'candlestick'
+  l?: 1 // Log scale
+  v?: 1 // Volume pane
+  i?: 1 // Illustrative charts allowed
+}
+
+const HASH_PREFIX = `v${PERMALINK_VERSION}.`
+
+// Hash fragment (without "#") for the state
+export function encodePermalinkState(state: PermalinkState): string {
+  const encoded: EncodedState = { t: state.tweetUrls, c: state.chartUrl }
+  if (state.selectedToken) encoded.s = state.selectedToken
+  if (state.timeframe !== DEFAULT_TIMEFRAME) encoded.f = state.timeframe
+  if (state.chartWindow) {
+    encoded.w = state.chartWindow.toNow
+      ? 'now'
+      : [Math.round(state.chartWindow.beforeMs / 1000), Math.round(state.chartWindow.afterMs / 1000)]
+  }
+  if (state.tweetPositions.length > 0) encoded.p = state.tweetPositions.map(({ x, y }) => [Math.round(x), Math.round(y)])
+  if (state.compareTokens.trim()) encoded.m = state.compareTokens.trim()
+  if (state.axisMode) encoded.a = state.axisMode
+  if (state.quote !== DEFAULT_QUOTE_DENOMINATION) encoded.q = state.quote
+  if (state.chartStyle === 'candlestick') encoded.y = 'candlestick'
+  if (state.logScale) encoded.l = 1
+  if (state.showVolume) encoded.v = 1
+  if (state.allowIllustrative) encoded.i = 1
+  return `${HASH_PREFIX}${toBase64Url(JSON.stringify(encoded))}`
+}
+
+/**
+ * State from a permalink hash ("#v1...." or without the "#"). Returns null for anything that
+ * isn't a permalink this version understands; invalid optional fields fall back to defaults.
+ * Links need a tweet and a chart input; `allowIncomplete` accepts a half-filled editor (drafts).
+ */
+export function decodePermalinkState(hash: string, options: { allowIncomplete?: boolean } = {}): PermalinkState | null {
+  const fragment = hash.replace(/^#/, '')
+  if (!fragment.startsWith(HASH_PREFIX)) return null
+
+  let encoded: Partial<EncodedState>
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(fragment.slice(HASH_PREFIX.length)))
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null // e.g. "null" or "[]"
+    encoded = parsed
+  } catch {
+    return null
+  }
+
+  const tweetUrls = Array.isArray(encoded.t) ? encoded.t.filter((url): url is string => typeof url === 'string') : []
+  const chartUrl = typeof encoded.c === 'string' ? encoded.c : ''
+  if (!options.allowIncomplete && (tweetUrls.length === 0 || !chartUrl)) return null
+
+  return {
+    tweetUrls,
+    chartUrl,
+    selectedToken: typeof encoded.s === 'string' ? encoded.s : '',
+    timeframe: TIMEFRAMES.some(tf => tf.value === encoded.f) ? encoded.f! : DEFAULT_TIMEFRAME,
+    chartWindow: decodeChartWindow(encoded.w),
+    tweetPositions: Array.isArray(encoded.p)
+      ? encoded.p.filter(isNumberPair).map(([x, y]) => ({ x, y }))
+      : [],
+    compareTokens: typeof encoded.m === 'string' ? encoded.m : '',
+    axisMode: AXIS_MODES.find(mode => mode.value === encoded.a)?.value ?? null,
+    quote: parseQuoteDenomination(typeof encoded.q === 'string' ? encoded.q : null),
+    chartStyle: encoded.y === 'candlestick' ? 'candlestick' : 'line',
+    logScale: encoded.l === 1,
+    showVolume: encoded.v === 1,
+    allowIllustrative: encoded.i === 1,
+  }
+}
+
+// Share link for the state (unfurls with the chart image)
+export function buildPermalink(origin: string, state: PermalinkState): string {
+  return `${origin}/r/${encodePermalinkState(state)}`
+}
+
+// Editor URL that restores an encoded state
+export function getEditorPath(encodedState: string): string {
+  return `/#${encodedState}`
+}
+
+function decodeChartWindow(value: EncodedState['w'] | undefined): ChartWindow | null {
+  if (value === 'now') return TWEET_TO_NOW_WINDOW
+  if (!isNumberPair(value) || value[0] < 0 || value[1] < 0 || value[0] + value[1] <= 0) return null
+  return { beforeMs: value[0] * 1000, afterMs: value[1] * 1000 }
+}
+
+function isNumberPair(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+}
+
+// UTF-8 safe base64url (tweet URLs and token inputs are ASCII, comparison lists may not be)
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
@@ -0,0 +1,50 @@
+// Quote currency of the chart
+//
+// Codex serves USD bars. A memecoin is often argued in its chain's native coin (SOL, ETH)
+// or in the token it trades against, so the bar route can re-denominate the USD bars by
+// dividing them by the quote asset's USD bars over the same window.
+
+// What the chart is priced in: USD, the chain's native coin, or the selected pair's quote token
+export type QuoteDenomination = 'USD' | 'NATIVE' | 'PAIR'
+
+export const QUOTE_DENOMINATIONS: Array<{ value: QuoteDenomination; label: string }> = [
+  { value: 'USD', label: 'USD' },
+  { value: 'NATIVE', label: 'Chain native (SOL, ETH, BNB...)' },
+  { value: 'PAIR', label: 'Paired token' },
+]
+
+export const DEFAULT_QUOTE_DENOMINATION: QuoteDenomination = 'USD'
+
+// Quote asset the bars were divided by (absent on USD charts)
+export interface QuoteCurrency {
+  symbol: string
+  address: string
+}
+
+// Wrapped native coin per Codex network id (its USD bars price the native coin)
+const NATIVE_QUOTES: Record<number, QuoteCurrency> = {
+  1: { symbol: 'ETH', address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2' },
+  56: { symbol: 'BNB', address: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c' },
+  137: { symbol: 'POL', address: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270' },
+  8453: { symbol: 'ETH', address: '0x4200000000000000000000000000000000000006' },
+  42161: { symbol: 'ETH', address: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1' },
+  43114: { symbol: 'AVAX', address: '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7' },
+  1399811149: { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112' },
+}
+
+export function getNativeQuote(networkId: number): QuoteCurrency | undefined {
+  return NATIVE_QUOTES[networkId]
+}
+
+export function parseQuoteDenomination(value: string | null): QuoteDenomination {
+  return QUOTE_DENOMINATIONS.some(option => option.value === value) ? (value as QuoteDenomination) : DEFAULT_QUOTE_DENOMINATION
+}
+
+/**
+ * Re-label a USD-formatted amount in the quote currency: "$1.2M" → "1.2M SOL".
+ * USD charts (no quote symbol) are returned unchanged.
+ */
+export function withQuoteUnit(formatted: string, quoteSymbol?: string): string {
+  if (!quoteSymbol) return formatted
+  return `${formatted.replace('$', '')} ${quoteSymbol}`
+}
@@ -0,0 +1,48 @@
+// Historical token supply
+//
+// Market cap at a point in time is price × supply at that time. Today's supply is
+// wrong for tokens that minted, burned or unlocked since, so the supply for each
+// bar is rebuilt by walking backwards from the current supply and undoing every
+// mint/burn that happened after the bar.
+
+export interface SupplyChangeEvent {
+  timestamp: number // unix seconds
+  delta: number // Tokens added (mint, positive) or removed (burn, negative), decimal-adjusted
+}
+
+/**
+ * Supply at the end of each bar.
+ * @param currentSupply supply now (after every event)
+ * @param events mint/burn events, in any order
+ * @param barTimestamps bar open times (ISO strings, ascending)
+ * @param barSeconds bar length, so events inside a bar count towards that bar
+ */
+export function buildSupplyTimeline(
+  currentSupply: number,
+  events: SupplyChangeEvent[],
+  barTimestamps: string[],
+  barSeconds: number
+): number[] {
+  const sortedEvents = [...events].sort((a, b) => b.timestamp - a.timestamp) // newest first
+  const supplies = new Array<number>(barTimestamps.length)
+
+  let supply = currentSupply
+  let eventIndex = 0
+
+  // Walk bars newest to oldest, undoing events that happened after each bar closed
+  for (let i = barTimestamps.length - 1; i >= 0; i--) {
+    const barEnd = new Date(barTimestamps[i]).getTime() / 1000 + barSeconds
+    while (eventIndex < sortedEvents.length && sortedEvents[eventIndex].timestamp >= barEnd) {
+      supply -= sortedEvents[eventIndex].delta
+      eventIndex++
+    }
+    supplies[i] = Math.max(0, supply)
+  }
+
+  return supplies
+}
+
+// Per-bar market cap from per-bar prices and supplies
+export function buildMarketCapHistory(prices: number[], supplies: number[]): number[] {
+  return prices.map((price, index) => price * (supplies[index] || 0))
+}
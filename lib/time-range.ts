@@ -0,0 +1,47 @@
+// Chart time window calculation shared by the server-side bar routes (Codex, Birdeye, CoinGecko)
+
+import { getChartWindowBounds, getTimeframeConfig, getWindowResolution, type ChartWindow } from './timeframes'
+
+// Helper function to calculate time range based on timeframe, tweet timestamp and the chosen window
+export function calculateTimeRange(timeframe: string, tweetTimestamp?: string | null, chartWindow?: ChartWindow) {
+  const now = Date.now()
+  const tweetTime = tweetTimestamp ? new Date(tweetTimestamp).getTime() : now
+
+  // Debug timestamp conversion
+  if (tweetTimestamp) {
+    console.log(`🕐 Tweet timestamp: ${tweetTimestamp}`)
+    console.log(`🕐 Parsed tweet time: ${new Date(tweetTime).toISOString()}`)
+    console.log(`🕐 Current time: ${new Date(now).toISOString()}`)
+  }
+
+  const config = getTimeframeConfig(timeframe)
+
+  // Time range calculation - the chosen window around the tweet, or recent data
+  let from: number, to: number
+
+  if (tweetTimestamp) {
+    const { startMs, endMs } = getChartWindowBounds(timeframe, tweetTime, chartWindow, now)
+    from = Math.floor(startMs / 1000)
+    to = Math.floor(endMs / 1000)
+
+    console.log(`⚖️ Tweet window${chartWindow?.toNow ? ' (tweet to now)' : ''}: ${((tweetTime - startMs)/1000/60/60).toFixed(1)}h before, ${((endMs - tweetTime)/1000/60/60).toFixed(1)}h after ${new Date(tweetTime).toISOString()}`)
+    console.log(`📅 Time range: ${new Date(from * 1000).toISOString()} to ${new Date(to * 1000).toISOString()}`)
+  } else {
+    // Use recent data ending at current time
+    from = Math.floor((now - config.recentRangeMs) / 1000)
+    to = Math.floor(now / 1000)
+  }
+
+  // Tweet-to-now spans vary from hours to years, so the resolution follows the span (as it does for
+  // windows stretched too far for the interval's bars); otherwise the highest resolution possible for
+  // the interval to capture ALL spikes (see lib/timeframes.ts)
+  const resolutionConfig = tweetTimestamp
+    ? getWindowResolution(timeframe, chartWindow, (to - from) * 1000)
+    : config.resolution
+  const resolution = resolutionConfig.primary
+
+  console.log(`📊 Using HIGH-RESOLUTION: ${resolution} for timeframe: ${timeframe} (fallback: ${resolutionConfig.fallback})`)
+  console.log(`🎯 Spike capture mode: UNFILTERED stats + HIGH prices + ${resolution}-minute resolution`)
+
+  return { from, to, resolution, resolutionConfig }
+}
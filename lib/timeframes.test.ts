@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { getTimeframeConfig, getWindowResolution, spanChartWindow, TWEET_TO_NOW_WINDOW } from './timeframes'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+describe('spanChartWindow', () => {
+  it('anchors on the earliest tweet and stretches the window to the latest', () => {
+    const first = Date.UTC(2025, 0, 1)
+    const { anchorTime, chartWindow } = spanChartWindow('1h', null, [first + 3 * HOUR, first])
+    expect(anchorTime).toBe(first)
+    expect(chartWindow).toEqual({ beforeMs: 12 * HOUR, afterMs: 15 * HOUR })
+  })
+})
+
+describe('getWindowResolution', () => {
+  it("keeps the interval's resolution when the window fits the page cap", () => {
+    expect(getWindowResolution('5m', null, 4 * HOUR)).toEqual(getTimeframeConfig('5m').resolution)
+  })
+
+  it('coarsens windows stretched past the page cap so the whole span is fetched', () => {
+    const { primary } = getWindowResolution('5m', null, 11 * DAY)
+    expect(primary).not.toBe(getTimeframeConfig('5m').resolution.primary)
+    expect(primary).toBe('30')
+  })
+
+  it('follows the span in tweet-to-now mode', () => {
+    expect(getWindowResolution('5m', TWEET_TO_NOW_WINDOW, 365 * DAY).primary).toBe('720')
+  })
+})
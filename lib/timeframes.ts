@@ -0,0 +1,235 @@
+// Chart intervals and the window around the tweet
+//
+// One table shared by the client (requested window, synthetic data, chart filtering)
+// and the server bar routes (Codex, Birdeye, CoinGecko), so the bars that are
+// requested, filtered and displayed always cover the same "X before / Y after" window.
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Time shown before and after the tweet, in milliseconds
+export interface ChartWindow {
+  beforeMs: number
+  afterMs: number
+  toNow?: boolean // "Tweet to now": start shortly before the tweet and run to the present (before/after unused)
+}
+
+// Performance mode: from just before the call up to now, with an automatic resolution
+export const TWEET_TO_NOW_WINDOW: ChartWindow = { beforeMs: 0, afterMs: 0, toNow: true }
+
+// Lead-in before the tweet in tweet-to-now mode: a slice of the span so the entry is visible
+const TWEET_TO_NOW_LEAD_FRACTION = 0.05
+const TWEET_TO_NOW_MIN_LEAD_MS = HOUR
+
+// Codex resolutions for the automatic pick, finest first
+const AUTO_RESOLUTIONS: Array<{ resolution: string; ms: number }> = [
+  { resolution: '1', ms: MINUTE },
+  { resolution: '5', ms: 5 * MINUTE },
+  { resolution: '15', ms: 15 * MINUTE },
+  { resolution: '30', ms: 30 * MINUTE },
+  { resolution: '60', ms: HOUR },
+  { resolution: '240', ms: 4 * HOUR },
+  { resolution: '720', ms: 12 * HOUR },
+  { resolution: '1D', ms: DAY },
+  { resolution: '7D', ms: 7 * DAY },
+]
+const AUTO_RESOLUTION_TARGET_BARS = 1000
+
+// Codex getBars serves at most 1500 bars per call; the bar route fetches up to 10 pages per window
+export const MAX_BARS_PER_PAGE = 1500
+export const MAX_BAR_PAGES = 10
+
+export interface TimeframeConfig {
+  value: string
+  label: string
+  intervalMs: number // Bar spacing for generated (illustrative) data
+  resolution: { primary: string; fallback: string } // Codex resolution, highest first to capture spikes
+  recentRangeMs: number // History shown when there is no tweet timestamp (ends now)
+  presets: ChartWindow[] // Window presets for the UI, the first one is the default
+}
+
+const span = (beforeMs: number, afterMs: number): ChartWindow => ({ beforeMs, afterMs })
+
+export const TIMEFRAMES: TimeframeConfig[] = [
+  {
+    value: '5m',
+    label: '5 Minutes',
+    intervalMs: 5 * MINUTE,
+    resolution: { primary: '1', fallback: '5' },
+    recentRangeMs: 4 * HOUR,
+    presets: [span(2 * HOUR, 2 * HOUR), span(1 * HOUR, 1 * HOUR), span(1 * HOUR, 3 * HOUR), span(3 * HOUR, 1 * HOUR), span(4 * HOUR, 4 * HOUR)],
+  },
+  {
+    value: '15m',
+    label: '15 Minutes',
+    intervalMs: 15 * MINUTE,
+    resolution: { primary: '1', fallback: '5' },
+    recentRangeMs: 1 * DAY,
+    presets: [span(6 * HOUR, 6 * HOUR), span(3 * HOUR, 3 * HOUR), span(2 * HOUR, 10 * HOUR), span(10 * HOUR, 2 * HOUR), span(12 * HOUR, 12 * HOUR)],
+  },
+  {
+    value: '1h',
+    label: '1 Hour',
+    intervalMs: HOUR,
+    resolution: { primary: '5', fallback: '15' },
+    recentRangeMs: 7 * DAY,
+    presets: [span(12 * HOUR, 12 * HOUR), span(6 * HOUR, 6 * HOUR), span(6 * HOUR, 18 * HOUR), span(18 * HOUR, 6 * HOUR), span(1 * DAY, 1 * DAY)],
+  },
+  {
+    value: '4h',
+    label: '4 Hours',
+    intervalMs: 4 * HOUR,
+    resolution: { primary: '15', fallback: '60' },
+    recentRangeMs: 30 * DAY,
+    presets: [span(3 * DAY, 3 * DAY), span(2 * DAY, 2 * DAY), span(1 * DAY, 5 * DAY), span(5 * DAY, 1 * DAY), span(7 * DAY, 7 * DAY)],
+  },
+  {
+    value: '6h',
+    label: '6 Hours',
+    intervalMs: 6 * HOUR,
+    resolution: { primary: '15', fallback: '60' },
+    recentRangeMs: 30 * DAY,
+    presets: [span(4 * DAY, 4 * DAY), span(2 * DAY, 2 * DAY), span(2 * DAY, 6 * DAY), span(6 * DAY, 2 * DAY), span(7 * DAY, 7 * DAY)],
+  },
+  {
+    value: '1d',
+    label: '1 Day',
+    intervalMs: DAY,
+    resolution: { primary: '60', fallback: '240' },
+    recentRangeMs: 90 * DAY,
+    presets: [span(15 * DAY, 15 * DAY), span(7 * DAY, 7 * DAY), span(7 * DAY, 30 * DAY), span(30 * DAY, 7 * DAY), span(30 * DAY, 30 * DAY)],
+  },
+  {
+    value: '1w',
+    label: '1 Week',
+    intervalMs: DAY,
+    resolution: { primary: '240', fallback: '1D' },
+    recentRangeMs: 365 * DAY,
+    presets: [span(45 * DAY, 45 * DAY), span(30 * DAY, 30 * DAY), span(14 * DAY, 90 * DAY), span(90 * DAY, 14 * DAY), span(90 * DAY, 90 * DAY)],
+  },
+  {
+    value: '1m',
+    label: '1 Month',
+    intervalMs: DAY,
+    resolution: { primary: '1D', fallback: '7D' },
+    recentRangeMs: 365 * DAY,
+    presets: [span(60 * DAY, 30 * DAY), span(30 * DAY, 30 * DAY), span(30 * DAY, 90 * DAY), span(90 * DAY, 30 * DAY), span(180 * DAY, 90 * DAY)],
+  },
+]
+
+export const DEFAULT_TIMEFRAME = '1h'
+
+export function getTimeframeConfig(timeframe: string): TimeframeConfig {
+  return TIMEFRAMES.find(tf => tf.value === timeframe) || TIMEFRAMES.find(tf => tf.value === DEFAULT_TIMEFRAME)!
+}
+
+export function getDefaultChartWindow(timeframe: string): ChartWindow {
+  return getTimeframeConfig(timeframe).presets[0]
+}
+
+// The user's window, or the interval's default when none was chosen
+export function resolveChartWindow(timeframe: string, chartWindow?: ChartWindow | null): ChartWindow {
+  return chartWindow || getDefaultChartWindow(timeframe)
+}
+
+export function isSameChartWindow(a: ChartWindow, b: ChartWindow): boolean {
+  if (a.toNow || b.toNow) return !!a.toNow === !!b.toNow
+  return a.beforeMs === b.beforeMs && a.afterMs === b.afterMs
+}
+
+/**
+ * Start and end (unix ms) of the chart for a tweet. In tweet-to-now mode the chart
+ * starts a short lead-in before the tweet and ends now.
+ */
+export function getChartWindowBounds(
+  timeframe: string,
+  tweetTime: number,
+  chartWindow?: ChartWindow | null,
+  now: number = Date.now()
+): { startMs: number; endMs: number } {
+  const resolved = resolveChartWindow(timeframe, chartWindow)
+  if (resolved.toNow) {
+    const leadMs = Math.max(TWEET_TO_NOW_MIN_LEAD_MS, (now - tweetTime) * TWEET_TO_NOW_LEAD_FRACTION)
+    return { startMs: tweetTime - leadMs, endMs: Math.max(now, tweetTime) }
+  }
+  return { startMs: tweetTime - resolved.beforeMs, endMs: tweetTime + resolved.afterMs }
+}
+
+/**
+ * Window anchored on the earliest of several tweets that keeps all of them in view:
+ * the chosen "before" ahead of the first tweet and the chosen "after" past the last one.
+ * Tweet-to-now already runs to the present, so it is returned unchanged.
+ */
+export function spanChartWindow(
+  timeframe: string,
+  chartWindow: ChartWindow | null | undefined,
+  tweetTimes: number[]
+): { anchorTime: number; chartWindow: ChartWindow } {
+  const resolved = resolveChartWindow(timeframe, chartWindow)
+  const anchorTime = Math.min(...tweetTimes)
+  if (resolved.toNow || tweetTimes.length < 2) return { anchorTime, chartWindow: resolved }
+  const spreadMs = Math.max(...tweetTimes) - anchorTime
+  return { anchorTime, chartWindow: { beforeMs: resolved.beforeMs, afterMs: resolved.afterMs + spreadMs } }
+}
+
+// Finest Codex resolution that keeps the span around the target bar count (the next one up is the fallback)
+export function pickAutoResolution(spanMs: number): { primary: string; fallback: string } {
+  const index = AUTO_RESOLUTIONS.findIndex(r => spanMs / r.ms <= AUTO_RESOLUTION_TARGET_BARS)
+  const primaryIndex = index >= 0 ? index : AUTO_RESOLUTIONS.length - 1
+  const fallbackIndex = Math.min(primaryIndex + 1, AUTO_RESOLUTIONS.length - 1)
+  return { primary: AUTO_RESOLUTIONS[primaryIndex].resolution, fallback: AUTO_RESOLUTIONS[fallbackIndex].resolution }
+}
+
+/**
+ * Codex resolution for a window of spanMs: the interval's own resolution, unless the span follows the
+ * present (tweet to now) or needs more bars at it than the bar route fetches (a window stretched over
+ * tweets days apart). Those pick from the span, so the earliest tweet isn't cut off.
+ */
+export function getWindowResolution(timeframe: string, chartWindow: ChartWindow | null | undefined, spanMs: number): { primary: string; fallback: string } {
+  if (chartWindow?.toNow) return pickAutoResolution(spanMs)
+  const configured = getTimeframeConfig(timeframe).resolution
+  const barMs = AUTO_RESOLUTIONS.find(r => r.resolution === configured.primary)?.ms
+  if (barMs && spanMs / barMs > MAX_BARS_PER_PAGE * MAX_BAR_PAGES) return pickAutoResolution(spanMs)
+  return configured
+}
+
+// Bar spacing for generated (illustrative) data: the interval, or the automatic resolution in tweet-to-now mode
+export function getSyntheticIntervalMs(timeframe: string, chartWindow: ChartWindow | null | undefined, spanMs: number): number {
+  if (!chartWindow?.toNow) return getTimeframeConfig(timeframe).intervalMs
+  const { primary } = pickAutoResolution(spanMs)
+  return AUTO_RESOLUTIONS.find(r => r.resolution === primary)!.ms
+}
+
+// Compact duration label: 90m, 6h, 1.5h, 15d
+export function formatWindowDuration(ms: number): string {
+  if (ms >= DAY && ms % DAY === 0) return `${ms / DAY}d`
+  if (ms >= HOUR) return `${Number((ms / HOUR).toFixed(1))}h`
+  return `${Math.round(ms / MINUTE)}m`
+}
+
+export function formatChartWindow(chartWindow: ChartWindow): string {
+  if (chartWindow.toNow) return 'Tweet → now (performance)'
+  return `${formatWindowDuration(chartWindow.beforeMs)} before / ${formatWindowDuration(chartWindow.afterMs)} after`
+}
+
+// Query string encoding (seconds) used by the client fetchers and the bar routes
+export function appendChartWindowParams(params: URLSearchParams, chartWindow?: ChartWindow): void {
+  if (!chartWindow) return
+  if (chartWindow.toNow) {
+    params.append('windowMode', 'to-now')
+    return
+  }
+  params.append('windowBefore', String(Math.round(chartWindow.beforeMs / 1000)))
+  params.append('windowAfter', String(Math.round(chartWindow.afterMs / 1000)))
+}
+
+// Returns undefined (interval default) when the params are missing or invalid
+export function parseChartWindowParams(searchParams: URLSearchParams): ChartWindow | undefined {
+  if (searchParams.get('windowMode') === 'to-now') return TWEET_TO_NOW_WINDOW
+  const before = Number(searchParams.get('windowBefore'))
+  const after = Number(searchParams.get('windowAfter'))
+  if (!searchParams.has('windowBefore') || !searchParams.has('windowAfter')) return undefined
+  if (!Number.isFinite(before) || !Number.isFinite(after) || before < 0 || after < 0 || before + after <= 0) return undefined
+  return { beforeMs: before * 1000, afterMs: after * 1000 }
+}
@@ -0,0 +1,45 @@
+// Per-token chart configuration
+//
+// Defaults that used to be special-cased by address around the app (which axis a
+// token is read on, tokens whose tweets predate Codex history) live here instead.
+
+// What the y-axis shows: the token price, market cap (circulating supply) or FDV (total supply)
+export type AxisMode = 'price' | 'marketCap' | 'fdv'
+
+export const AXIS_MODES: Array<{ value: AxisMode; label: string }> = [
+  { value: 'price', label: 'Price' },
+  { value: 'marketCap', label: 'Market Cap' },
+  { value: 'fdv', label: 'FDV (fully diluted)' },
+]
+
+// Memecoin calls are argued in market cap; majors and spot assets default to price
+export const DEFAULT_AXIS_MODE: AxisMode = 'marketCap'
+export const SPOT_ASSET_AXIS_MODE: AxisMode = 'price'
+
+export interface TokenConfig {
+  name: string
+  symbol: string
+  address: string // CoinGecko id for spot assets, token address otherwise
+  network: string // 'coingecko' or the token's chain
+  defaultAxisMode?: AxisMode // Axis shown until the user picks one (DEFAULT_AXIS_MODE when not set)
+  codexRecentFirst?: boolean // Tweets usually predate Codex history: fetch the latest bars before the tweet window
+}
+
+// Hotlist tokens offered for quick selection
+export const HOTLIST_TOKENS: TokenConfig[] = [
+  { name: 'Bitcoin', symbol: 'BTC', address: 'bitcoin', network: 'coingecko', defaultAxisMode: 'price' },
+  { name: 'Ethereum', symbol: 'ETH', address: 'ethereum', network: 'coingecko', defaultAxisMode: 'price' },
+  { name: 'Solana', symbol: 'SOL', address: 'solana', network: 'coingecko', defaultAxisMode: 'price' },
+  { name: 'PUMP', symbol: 'PUMP', address: 'pumpCmXqMfrsAkQ5r49WcJnRayYRqmXz6ae8H7H9Dfn', network: 'solana', codexRecentFirst: true },
+]
+
+// Chart input for a configured token (CoinGecko assets are charted by their id)
+export function getTokenInput(token: TokenConfig): string {
+  return token.network === 'coingecko' ? `coingecko:${token.address}` : token.address
+}
+
+// Config for a chart input: a configured address or its CoinGecko id input
+export function getTokenConfig(input: string): TokenConfig | undefined {
+  const normalized = input.trim()
+  return HOTLIST_TOKENS.find(token => token.address === normalized || getTokenInput(token) === normalized)
+}
@@ -4,3 +4,24 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Compact USD amount for liquidity/volume labels ($1.2M, $850.0K)
+export function formatUsdCompact(value: number): string {
+  if (value >= 1000000000) return `$${(value / 1000000000).toFixed(2)}B`
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`
+  return `$${value.toFixed(0)}`
+}
+
+// USD price with enough decimals for sub-cent tokens ($64210, $1.234, $0.00001234)
+export function formatUsdPrice(value: number): string {
+  if (value >= 1000) return `$${value.toFixed(0)}`
+  if (value >= 1) return `$${value.toFixed(3)}`
+  if (value >= 0.01) return `$${value.toFixed(4)}`
+  return `$${value.toPrecision(4)}`
+}
+
+// Signed percentage (+123.4%, -45.2%)
+export function formatPercentChange(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`
+}
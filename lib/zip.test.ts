@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+interface CentralEntry {
+  name: string
+  crc: number
+  size: number
+  localOffset: number
+}
+
+// Walk the archive the way unzip does: end record → central directory → local headers
+function readCentralDirectory(archive: Uint8Array): CentralEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  const centralSize = view.getUint32(end + 12, true)
+  let offset = view.getUint32(end + 16, true)
+  expect(offset + centralSize).toBe(end)
+
+  const entries: CentralEntry[] = []
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const nameLength = view.getUint16(offset + 28, true)
+    entries.push({
+      name: decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+      crc: view.getUint32(offset + 16, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength
+  }
+  return entries
+}
+
+describe('createZip', () => {
+  it('records the standard CRC-32 of each entry', () => {
+    const archive = createZip([{ name: 'check.txt', data: encoder.encode('123456789') }])
+    expect(readCentralDirectory(archive)[0].crc).toBe(0xcbf43926)
+  })
+
+  it('points every central entry at its local header and stored data', () => {
+    const files = [
+      { name: '01-WIF-someone.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]) },
+      { name: 'ünïcode/report.csv', data: encoder.encode('row,status\r\n1,real\r\n') },
+      { name: 'empty.txt', data: new Uint8Array() },
+    ]
+    const archive = createZip(files)
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+    const entries = readCentralDirectory(archive)
+
+    expect(entries.map(entry => entry.name)).toEqual(files.map(file => file.name))
+    entries.forEach((entry, index) => {
+      const local = entry.localOffset
+      expect(view.getUint32(local, true)).toBe(0x04034b50)
+      expect(view.getUint16(local + 8, true)).toBe(0) // Stored
+      expect(view.getUint32(local + 14, true)).toBe(entry.crc)
+      expect(view.getUint32(local + 18, true)).toBe(files[index].data.length)
+      expect(entry.size).toBe(files[index].data.length)
+
+      const nameLength = view.getUint16(local + 26, true)
+      const dataStart = local + 30 + nameLength
+      expect(decoder.decode(archive.subarray(local + 30, dataStart))).toBe(files[index].name)
+      expect(archive.subarray(dataStart, dataStart + entry.size)).toEqual(files[index].data)
+    })
+  })
+
+  it('writes a valid empty archive', () => {
+    const archive = createZip([])
+    expect(archive).toHaveLength(22)
+    expect(readCentralDirectory(archive)).toEqual([])
+  })
+})
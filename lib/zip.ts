@@ -0,0 +1,103 @@
+// Minimal ZIP writer
+//
+// Batch exports bundle PNGs (already compressed) and a small report, so entries are stored
+// uncompressed: no deflate, just the local headers, the central directory and the CRC-32s
+// every unzip tool checks.
+
+export interface ZipEntry {
+  name: string // Path inside the archive, "/" separated
+  data: Uint8Array
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const VERSION = 20 // 2.0: the oldest version readers need for stored entries
+const UTF8_NAMES_FLAG = 0x0800
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields (2-second precision, local time as unzip tools expect)
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Build a ZIP archive of the entries, stored without compression. Archives are limited to
+ * what fits without ZIP64 (4 GB, 65535 entries), far more than a batch produces.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const stamp = dosDateTime(modified)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, VERSION, true)
+    local.setUint16(6, UTF8_NAMES_FLAG, true)
+    local.setUint16(8, 0, true) // Stored
+    local.setUint16(10, stamp.time, true)
+    local.setUint16(12, stamp.date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true) // No extra field
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    central.setUint16(4, VERSION, true)
+    central.setUint16(6, VERSION, true)
+    central.setUint16(8, UTF8_NAMES_FLAG, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, stamp.time, true)
+    central.setUint16(14, stamp.date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    // Extra field, comment, disk number and attributes stay zero
+    central.setUint32(42, offset, true)
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + size
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const archive = new Uint8Array(offset + centralSize + 22)
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}